@@ -7,11 +7,32 @@ export declare class ExternalObject<T> {
     [K: symbol]: T
   }
 }
+/** Body of a dispatched response, read chunk by chunk as the handler sends it */
+export declare class DispatchBody {
+  /** Next chunk of the body, `null` once it has ended */
+  next(): Promise<Buffer | null>
+}
 export declare class ServerCore {
   constructor(config: ServerOptionsCore)
   getConfig(): ServerOptionsCore
   setConfig(config: ServerOptionsCore): void
   addRoute(route: Route): void
+  addWebSocketRoute(route: WebSocketRoute): void
+  /**
+   * Handler answering requests that match no route, instead of the
+   * default 404 response
+   */
+  setNotFound(handler: RouteHandler): void
+  /**
+   * Send a message to every socket subscribed to `topic`, returning how
+   * many sockets it was queued on
+   */
+  publish(topic: string, data: Buffer, binary: boolean): number
+  /**
+   * Run a request through routing, validation and its handler without a listener.
+   * Resolves once the response has started, its body streaming after.
+   */
+  dispatch(request: DispatchRequest): Promise<DispatchResponse>
   /**
    * Start the HTTP server on TCP or Unix socket and execute the `ready` callback if provided.
    *
@@ -25,7 +46,13 @@ export declare class ServerCore {
    * The caller must guarantee these conditions.
    */
   start(ready: (() => void) | undefined): Promise<void>
-  close(): void
+  /**
+   * Stop accepting connections and resolve once the open ones have
+   * finished their in-flight requests and streams, and open WebSockets
+   * have answered a 1001 close frame. Connections still open after
+   * `timeout` milliseconds (default 10 seconds) are dropped.
+   */
+  close(timeout?: number | undefined | null): Promise<void>
 }
 
 export interface CookieOptionsCore {
@@ -38,6 +65,21 @@ export interface CookieOptionsCore {
   sameSite?: string
 }
 
+/** Request handed to `dispatch` instead of being read from a socket */
+export interface DispatchRequest {
+  method: string
+  /** Path and query string */
+  url: string
+  headers: Record<string, string>
+  body?: Buffer
+}
+
+export interface DispatchResponse {
+  status: number
+  headers: Array<[string, string]>
+  body: DispatchBody
+}
+
 export declare function endStream(channel: ExternalObject<ResponseChannel>): void
 
 export declare function getAllCookies(core: ExternalObject<RequestCore>): Record<string, string>
@@ -48,6 +90,12 @@ export declare function getAllParams(core: ExternalObject<RequestCore>): Record<
 
 export declare function getAllQuery(core: ExternalObject<RequestCore>): Record<string, Array<string>>
 
+/**
+ * Methods with a route on the path, empty unless the request reached the
+ * not-found route with a method the path has no route for
+ */
+export declare function getAllowedMethods(core: ExternalObject<RequestCore>): Array<string>
+
 export declare function getBodyBuffer(core: ExternalObject<RequestCore>): Buffer
 
 export declare function getCookie(core: ExternalObject<RequestCore>, name: string): string | null
@@ -78,12 +126,24 @@ export declare function getUrl(core: ExternalObject<RequestCore>): string
 
 export declare function getXhr(core: ExternalObject<RequestCore>): boolean
 
+/**
+ * Calls `callback` once the server gives up waiting for the response, right
+ * away if it already has. Never called once the response has started
+ */
+export declare function onAbort(channel: ExternalObject<ResponseChannel>, callback: () => void): void
+
 export interface Route {
   path: string
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE'
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE' | 'ALL'
   handler: RouteHandler
   schema?: string
   staticResponse?: string
+  /** Also match every path below `path`, with the rest of the path in the `*` param */
+  wildcard?: boolean
+  /** Overrides the server's `max_request_size` for this route */
+  maxRequestSize?: number
+  /** Overrides the server's `timeout` for this route */
+  timeout?: number
 }
 
 export declare function sendChunk(channel: ExternalObject<ResponseChannel>, data: Buffer): void
@@ -107,10 +167,53 @@ export interface ServerOptionsCore {
   host?: string
   unixSocket?: string
   trustProxy?: boolean
+  /** Largest request body in bytes, larger ones are answered with 413 (default 10 MiB) */
   maxRequestSize?: number
+  /**
+   * Milliseconds to read a request and start its response. Slow headers
+   * close the connection, a slow body is answered with 408 and a slow
+   * handler with 504
+   */
   timeout?: number
   reusePort?: boolean
+  /** `"strict"` (default) answers 500 on a response schema violation, `"warn"` only logs it */
+  responseValidation?: 'strict' | 'warn'
+  /** Answer HEAD requests from the matching GET route (default `true`) */
+  autoHead?: boolean
+  /** Answer OPTIONS requests with the allowed methods (default `true`) */
+  autoOptions?: boolean
 }
 
 /** buffer: [status_code(2)] [headers_len(4)] [headers_json] */
 export declare function startStream(channel: ExternalObject<ResponseChannel>, buffer: Buffer): void
+
+export interface WebSocketRoute {
+  path: string
+  handler: WebSocketHandler
+  /** Route schema, its `body` validating each incoming message */
+  schema?: string
+}
+
+export declare function wsClose(socket: ExternalObject<WebSocketChannel>, code?: number | undefined | null, reason?: string | undefined | null): void
+
+export declare function wsIsSubscribed(socket: ExternalObject<WebSocketChannel>, topic: string): boolean
+
+export declare function wsPing(socket: ExternalObject<WebSocketChannel>, data?: Buffer | undefined | null): void
+
+export declare function wsPong(socket: ExternalObject<WebSocketChannel>, data?: Buffer | undefined | null): void
+
+/**
+ * Sends to every other socket subscribed to `topic`, returning how many
+ * sockets the message was queued on
+ */
+export declare function wsPublish(socket: ExternalObject<WebSocketChannel>, topic: string, data: Buffer, binary: boolean): number
+
+/**
+ * Returns `false` when the socket is over its backpressure limit and the
+ * caller should wait for the `drain` event before sending more
+ */
+export declare function wsSend(socket: ExternalObject<WebSocketChannel>, data: Buffer, binary: boolean): boolean
+
+export declare function wsSubscribe(socket: ExternalObject<WebSocketChannel>, topic: string): void
+
+export declare function wsUnsubscribe(socket: ExternalObject<WebSocketChannel>, topic: string): void
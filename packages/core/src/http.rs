@@ -5,3 +5,5 @@ pub mod mime;
 pub mod mime_tests;
 pub mod request;
 pub mod response;
+pub mod websocket;
+pub mod websocket_tests;
@@ -1,7 +1,8 @@
-use http_body_util::BodyExt;
+use http_body_util::{BodyExt, Limited};
 use hyper::{
     Request,
-    body::{Bytes, Incoming},
+    body::{Body, Bytes},
+    header::{COOKIE, HOST},
 };
 
 use napi::bindgen_prelude::{Buffer, External};
@@ -27,17 +28,28 @@ pub struct RequestCore {
     pub params: HashMap<String, String>,
     pub query_raw: HashMap<String, Vec<String>>,
     pub cookies_raw: HashMap<String, String>,
+    /// Methods with a route on the path, set when the not-found route answers
+    /// a request for another method
+    pub allowed: Vec<String>,
 }
 
 impl RequestCore {
-    pub async fn new(
-        req: Request<Incoming>,
+    /// Reads the request, failing with a `LengthLimitError` once the body
+    /// grows past `max_body_size` bytes
+    pub async fn new<B>(
+        req: Request<B>,
         remote_addr: Option<SocketAddr>,
         trust_proxy: bool,
-    ) -> Result<Self, Box<dyn std::error::Error>> {
+        max_body_size: usize,
+    ) -> Result<Self, Box<dyn std::error::Error>>
+    where
+        B: Body<Data = Bytes>,
+        B::Error: std::error::Error + Send + Sync + 'static,
+    {
         let method = req.method().as_str().to_string();
         let uri = req.uri();
-        let url = uri.to_string();
+        // HTTP/2 request targets are absolute, the URL only keeps the path and query
+        let url = uri.path_and_query().map_or_else(|| uri.path().to_string(), |pq| pq.to_string());
         let pathname = uri.path().to_string();
         let search = uri.query().map(|q| format!("?{q}"));
         let original_url = url.clone();
@@ -45,10 +57,24 @@ impl RequestCore {
         let mut headers_raw = HashMap::with_capacity(req.headers().len());
         for (name, value) in req.headers() {
             if let Ok(v) = value.to_str() {
+                // HTTP/2 clients may send each cookie in its own header
+                if name == COOKIE
+                    && let Some(cookies) = headers_raw.get_mut(COOKIE.as_str())
+                {
+                    cookies.push_str("; ");
+                    cookies.push_str(v);
+                    continue;
+                }
+
                 headers_raw.insert(name.as_str().to_string(), v.to_string());
             }
         }
 
+        // HTTP/2 requests carry the host in the `:authority` pseudo-header instead
+        if let Some(authority) = uri.authority() {
+            headers_raw.entry(HOST.as_str().to_string()).or_insert_with(|| authority.to_string());
+        }
+
         let mut query_raw: HashMap<String, Vec<String>> = HashMap::new();
         if let Some(q) = uri.query() {
             for pair in q.split('&') {
@@ -62,7 +88,11 @@ impl RequestCore {
 
         let scheme = req.uri().scheme_str().unwrap_or("http").to_string();
 
-        let body = req.into_body().collect().await?.to_bytes();
+        let body = Limited::new(req.into_body(), max_body_size)
+            .collect()
+            .await
+            .map_err(|e| e as Box<dyn std::error::Error>)?
+            .to_bytes();
 
         let protocol = if trust_proxy {
             headers_raw
@@ -125,6 +155,7 @@ impl RequestCore {
             params: HashMap::new(),
             query_raw,
             cookies_raw,
+            allowed: Vec::new(),
         })
     }
 }
@@ -223,3 +254,10 @@ pub fn get_secure(core: &External<Arc<RequestCore>>) -> bool {
 pub fn get_xhr(core: &External<Arc<RequestCore>>) -> bool {
     core.xhr
 }
+
+/// Methods with a route on the path, empty unless the request reached the
+/// not-found route with a method the path has no route for
+#[napi]
+pub fn get_allowed_methods(core: &External<Arc<RequestCore>>) -> Vec<String> {
+    core.allowed.clone()
+}
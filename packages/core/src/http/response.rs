@@ -1,7 +1,10 @@
 use http_body_util::{Full, StreamBody, combinators::BoxBody};
 use hyper::body::{Bytes, Frame};
 
-use napi::bindgen_prelude::{Buffer, External};
+use napi::{
+    bindgen_prelude::{Buffer, External, Function},
+    threadsafe_function::{ThreadsafeFunction, ThreadsafeFunctionCallMode},
+};
 
 use parking_lot::Mutex;
 use serde_json::from_slice;
@@ -9,13 +12,37 @@ use serde_json::from_slice;
 use std::{collections::HashMap, sync::Arc};
 use tokio::sync::mpsc::UnboundedSender;
 
+pub type AbortHandler = ThreadsafeFunction<(), (), (), napi::Status, false>;
+
 pub struct ResponseChannel {
     pub tx: Mutex<Option<UnboundedSender<ResponseMessage>>>,
+    pub abort: Mutex<AbortState>,
+}
+
+/// Whether the server still waits for the response to start
+pub enum AbortState {
+    Waiting(Option<AbortHandler>),
+    Started,
+    Aborted,
 }
 
 impl ResponseChannel {
     pub fn new(tx: UnboundedSender<ResponseMessage>) -> Self {
-        Self { tx: Mutex::new(Some(tx)) }
+        Self { tx: Mutex::new(Some(tx)), abort: Mutex::new(AbortState::Waiting(None)) }
+    }
+
+    /// Marks the response as started, releasing the abort callback
+    pub fn started(&self) {
+        *self.abort.lock() = AbortState::Started;
+    }
+
+    /// Gives up on the response, running the abort callback. Later sends
+    /// still succeed but go nowhere
+    pub fn abort(&self) {
+        let state = std::mem::replace(&mut *self.abort.lock(), AbortState::Aborted);
+        if let AbortState::Waiting(Some(handler)) = state {
+            handler.call((), ThreadsafeFunctionCallMode::NonBlocking);
+        }
     }
 }
 
@@ -123,6 +150,27 @@ pub fn end_stream(channel: &External<Arc<ResponseChannel>>) -> napi::Result<()>
     }
 }
 
+/// Calls `callback` once the server gives up waiting for the response, right
+/// away if it already has. Never called once the response has started
+#[napi]
+pub fn on_abort(
+    channel: &External<Arc<ResponseChannel>>,
+    callback: Function<(), ()>,
+) -> napi::Result<()> {
+    let mut state = channel.abort.lock();
+    match &mut *state {
+        AbortState::Waiting(handler) => {
+            *handler = Some(callback.build_threadsafe_function().build()?);
+            Ok(())
+        }
+        AbortState::Started => Ok(()),
+        AbortState::Aborted => {
+            drop(state);
+            callback.call(())
+        }
+    }
+}
+
 #[derive(Clone)]
 #[napi(object)]
 pub struct SendFileOptionsCore {
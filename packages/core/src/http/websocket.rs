@@ -0,0 +1,436 @@
+use ahash::{AHashMap, AHashSet};
+use dashmap::DashMap;
+use futures_util::{SinkExt, StreamExt};
+use hyper::{body::Bytes, upgrade::Upgraded};
+use hyper_util::rt::TokioIo;
+
+use napi::{
+    Env,
+    bindgen_prelude::{Buffer, External, Object, ToNapiValue},
+    sys,
+    threadsafe_function::{ThreadsafeFunction, ThreadsafeFunctionCallMode},
+};
+use parking_lot::Mutex;
+use serde_json::json;
+
+use std::{
+    future::Future,
+    sync::{
+        Arc,
+        atomic::{AtomicBool, AtomicU32, AtomicUsize, Ordering},
+    },
+    time::Duration,
+};
+use tokio::{
+    sync::mpsc::{self, UnboundedSender},
+    task::JoinSet,
+    time::{Instant, sleep_until},
+};
+use tokio_tungstenite::{
+    WebSocketStream,
+    tungstenite::{
+        Message,
+        protocol::{CloseFrame, Role, frame::coding::CloseCode},
+    },
+};
+
+use crate::{
+    http::request::RequestCore,
+    validation::{parser::parse_body, types::SchemaType},
+};
+
+pub type WebSocketHandler =
+    ThreadsafeFunction<WebSocketEvent, (), WebSocketEvent, napi::Status, false>;
+
+/// Bytes queued on a socket above which `wsSend` reports backpressure
+const BACKPRESSURE_LIMIT: usize = 16 * 1024 * 1024;
+
+/// How long a close frame sent to the peer waits for its answer before the
+/// connection is dropped
+const CLOSE_TIMEOUT: Duration = Duration::from_secs(5);
+
+static NEXT_SOCKET_ID: AtomicU32 = AtomicU32::new(1);
+
+/// Subscribed sockets by topic, one map per server
+pub type Topics = DashMap<Box<str>, AHashMap<u32, Arc<WebSocketChannel>>>;
+
+/// Open WebSocket sessions of a server, so closing it can close them too
+#[derive(Default)]
+pub struct WebSocketSessions {
+    sockets: DashMap<u32, Arc<WebSocketChannel>>,
+    tasks: Mutex<JoinSet<()>>,
+}
+
+impl WebSocketSessions {
+    /// Runs a session in the background until it ends or the server drops it
+    pub fn spawn(&self, session: impl Future<Output = ()> + Send + 'static) {
+        let mut tasks = self.tasks.lock();
+        // Reap finished sessions so only open ones are kept
+        while tasks.try_join_next().is_some() {}
+        tasks.spawn(session);
+    }
+
+    /// Sends a 1001 close frame to every open socket and hands over their
+    /// sessions, to be awaited or aborted
+    pub fn close_all(&self) -> JoinSet<()> {
+        for socket in self.sockets.iter() {
+            socket.close(1001, "Server shutting down".to_string());
+        }
+
+        std::mem::take(&mut *self.tasks.lock())
+    }
+}
+
+/// Keeps a socket in its server's sessions and topics until its session
+/// ends or is dropped
+struct Registration {
+    sessions: Arc<WebSocketSessions>,
+    channel: Arc<WebSocketChannel>,
+}
+
+impl Registration {
+    fn new(sessions: Arc<WebSocketSessions>, channel: &Arc<WebSocketChannel>) -> Self {
+        sessions.sockets.insert(channel.id, channel.clone());
+        Self { sessions, channel: channel.clone() }
+    }
+}
+
+impl Drop for Registration {
+    fn drop(&mut self) {
+        self.sessions.sockets.remove(&self.channel.id);
+        self.channel.unsubscribe_all();
+    }
+}
+
+pub enum WebSocketCommand {
+    Send(Message),
+    Close(Option<CloseFrame>),
+}
+
+pub struct WebSocketChannel {
+    pub id: u32,
+    tx: UnboundedSender<WebSocketCommand>,
+    buffered: AtomicUsize,
+    draining: AtomicBool,
+    topics: Mutex<AHashSet<Box<str>>>,
+    /// Topics of the server the socket was accepted by
+    server_topics: Arc<Topics>,
+}
+
+impl WebSocketChannel {
+    pub fn new(tx: UnboundedSender<WebSocketCommand>, server_topics: Arc<Topics>) -> Self {
+        Self {
+            id: NEXT_SOCKET_ID.fetch_add(1, Ordering::Relaxed),
+            tx,
+            buffered: AtomicUsize::new(0),
+            draining: AtomicBool::new(false),
+            topics: Mutex::new(AHashSet::new()),
+            server_topics,
+        }
+    }
+
+    /// Queues a message, returning `false` once the socket is over its
+    /// backpressure limit or closed
+    pub fn send(&self, message: Message) -> bool {
+        let len = message.len();
+        let buffered = self.buffered.fetch_add(len, Ordering::SeqCst) + len;
+
+        if self.tx.send(WebSocketCommand::Send(message)).is_err() {
+            return false;
+        }
+
+        if buffered > BACKPRESSURE_LIMIT {
+            self.draining.store(true, Ordering::SeqCst);
+            return false;
+        }
+
+        true
+    }
+
+    /// Queues a close frame, the session ends once the peer answers it or
+    /// after `CLOSE_TIMEOUT`
+    pub fn close(&self, code: u16, reason: String) {
+        let frame = CloseFrame { code: CloseCode::from(code), reason: reason.into() };
+        let _ = self.tx.send(WebSocketCommand::Close(Some(frame)));
+    }
+
+    pub fn subscribe(self: &Arc<Self>, topic: &str) {
+        if self.topics.lock().insert(topic.into()) {
+            self.server_topics.entry(topic.into()).or_default().insert(self.id, self.clone());
+        }
+    }
+
+    fn unsubscribe(&self, topic: &str) {
+        if self.topics.lock().remove(topic) {
+            remove_subscriber(&self.server_topics, topic, self.id);
+        }
+    }
+
+    fn unsubscribe_all(&self) {
+        for topic in self.topics.lock().drain() {
+            remove_subscriber(&self.server_topics, &topic, self.id);
+        }
+    }
+}
+
+fn remove_subscriber(topics: &Topics, topic: &str, id: u32) {
+    topics.remove_if_mut(topic, |_, subscribers| {
+        subscribers.remove(&id);
+        subscribers.is_empty()
+    });
+}
+
+/// Sends `message` to every socket subscribed to `topic` but `exclude`,
+/// returning the number of sockets it was queued on
+pub fn publish(topics: &Topics, topic: &str, message: Message, exclude: Option<u32>) -> u32 {
+    let Some(subscribers) = topics.get(topic) else {
+        return 0;
+    };
+
+    let mut sent = 0;
+    for (id, socket) in subscribers.iter() {
+        // Message payloads are reference counted, cloning does not copy them
+        if Some(*id) != exclude && socket.send(message.clone()) {
+            sent += 1;
+        }
+    }
+
+    sent
+}
+
+/// Socket event handed to the route's JS handler
+pub struct WebSocketEvent {
+    pub kind: &'static str,
+    pub socket: Arc<WebSocketChannel>,
+    pub req: Option<Arc<RequestCore>>,
+    pub data: Option<Vec<u8>>,
+    pub binary: bool,
+    pub code: Option<u16>,
+    pub reason: Option<String>,
+}
+
+impl WebSocketEvent {
+    fn new(kind: &'static str, socket: &Arc<WebSocketChannel>) -> Self {
+        Self {
+            kind,
+            socket: socket.clone(),
+            req: None,
+            data: None,
+            binary: false,
+            code: None,
+            reason: None,
+        }
+    }
+}
+
+impl ToNapiValue for WebSocketEvent {
+    unsafe fn to_napi_value(env: sys::napi_env, val: Self) -> napi::Result<sys::napi_value> {
+        let mut obj = Object::new(&Env::from_raw(env))?;
+        obj.set("kind", val.kind)?;
+        obj.set("id", val.socket.id)?;
+        obj.set("socket", External::new(val.socket))?;
+        obj.set("binary", val.binary)?;
+
+        if let Some(req) = val.req {
+            obj.set("req", External::new(req))?;
+        }
+        if let Some(data) = val.data {
+            obj.set("data", Buffer::from(data))?;
+        }
+        if let Some(code) = val.code {
+            obj.set("code", code)?;
+        }
+        if let Some(reason) = val.reason {
+            obj.set("reason", reason)?;
+        }
+
+        unsafe { Object::to_napi_value(env, obj) }
+    }
+}
+
+/// Runs an upgraded connection until either side closes it, forwarding
+/// socket events to `handler` and messages queued from JS to the peer.
+/// Messages that fail the route's message schema are answered with a
+/// validation error and not forwarded.
+pub async fn serve_websocket(
+    upgraded: Upgraded,
+    handler: Arc<WebSocketHandler>,
+    req: RequestCore,
+    message_schema: Option<SchemaType>,
+    topics: Arc<Topics>,
+    sessions: Arc<WebSocketSessions>,
+) {
+    let stream = WebSocketStream::from_raw_socket(TokioIo::new(upgraded), Role::Server, None).await;
+    let (mut sink, mut source) = stream.split();
+
+    let (tx, mut rx) = mpsc::unbounded_channel();
+    let channel = Arc::new(WebSocketChannel::new(tx, topics));
+    let registration = Registration::new(sessions, &channel);
+
+    let emit = |event: WebSocketEvent| {
+        let _ = handler.call(event, ThreadsafeFunctionCallMode::NonBlocking);
+    };
+
+    emit(WebSocketEvent { req: Some(Arc::new(req)), ..WebSocketEvent::new("open", &channel) });
+
+    // Abnormal closure unless the peer sends a close frame
+    let mut close_code = 1006;
+    let mut close_reason = String::new();
+    let mut close_deadline = None;
+
+    loop {
+        tokio::select! {
+            command = rx.recv() => match command {
+                Some(WebSocketCommand::Send(message)) => {
+                    let len = message.len();
+                    if sink.send(message).await.is_err() {
+                        break;
+                    }
+
+                    let buffered = channel.buffered.fetch_sub(len, Ordering::SeqCst) - len;
+                    if buffered == 0 && channel.draining.swap(false, Ordering::SeqCst) {
+                        emit(WebSocketEvent::new("drain", &channel));
+                    }
+                }
+                Some(WebSocketCommand::Close(frame)) => {
+                    // Keep reading until the peer acknowledges the close
+                    if sink.send(Message::Close(frame)).await.is_err() {
+                        break;
+                    }
+                    close_deadline.get_or_insert_with(|| Instant::now() + CLOSE_TIMEOUT);
+                }
+                None => break,
+            },
+            _ = sleep_until(close_deadline.unwrap_or_else(Instant::now)),
+                if close_deadline.is_some() => break,
+            message = source.next() => match message {
+                Some(Ok(message @ (Message::Text(_) | Message::Binary(_)))) => {
+                    let binary = message.is_binary();
+                    let data = message.into_data();
+
+                    if let Some(schema) = &message_schema
+                        && let Err(e) = parse_body(&data, schema)
+                    {
+                        let error = json!({
+                            "error": "Validation Error",
+                            "message": format!("Validation error in {}: {}", e.field, e.message)
+                        });
+                        channel.send(Message::Text(error.to_string().into()));
+                        continue;
+                    }
+
+                    emit(WebSocketEvent {
+                        data: Some(data.to_vec()),
+                        binary,
+                        ..WebSocketEvent::new("message", &channel)
+                    });
+                }
+                Some(Ok(Message::Ping(data))) => {
+                    emit(WebSocketEvent {
+                        data: Some(data.to_vec()),
+                        binary: true,
+                        ..WebSocketEvent::new("ping", &channel)
+                    });
+                }
+                Some(Ok(Message::Pong(data))) => {
+                    emit(WebSocketEvent {
+                        data: Some(data.to_vec()),
+                        binary: true,
+                        ..WebSocketEvent::new("pong", &channel)
+                    });
+                }
+                Some(Ok(Message::Close(frame))) => {
+                    match frame {
+                        Some(frame) => {
+                            close_code = u16::from(frame.code);
+                            close_reason = frame.reason.to_string();
+                        }
+                        None => close_code = 1005,
+                    }
+                    break;
+                }
+                Some(Ok(Message::Frame(_))) => {}
+                Some(Err(_)) | None => break,
+            },
+        }
+    }
+
+    drop(registration);
+    let _ = sink.close().await;
+
+    emit(WebSocketEvent {
+        code: Some(close_code),
+        reason: Some(close_reason),
+        ..WebSocketEvent::new("close", &channel)
+    });
+}
+
+pub fn to_message(data: &[u8], binary: bool) -> napi::Result<Message> {
+    if binary {
+        return Ok(Message::Binary(Bytes::copy_from_slice(data)));
+    }
+
+    let text = String::from_utf8(data.to_vec())
+        .map_err(|e| napi::Error::from_reason(format!("Invalid UTF-8 text message: {e}")))?;
+
+    Ok(Message::Text(text.into()))
+}
+
+/// Returns `false` when the socket is over its backpressure limit and the
+/// caller should wait for the `drain` event before sending more
+#[napi]
+pub fn ws_send(
+    socket: &External<Arc<WebSocketChannel>>,
+    data: Buffer,
+    binary: bool,
+) -> napi::Result<bool> {
+    Ok(socket.send(to_message(data.as_ref(), binary)?))
+}
+
+#[napi]
+pub fn ws_ping(socket: &External<Arc<WebSocketChannel>>, data: Option<Buffer>) {
+    let data = data.map(|d| Bytes::copy_from_slice(d.as_ref())).unwrap_or_default();
+    socket.send(Message::Ping(data));
+}
+
+#[napi]
+pub fn ws_pong(socket: &External<Arc<WebSocketChannel>>, data: Option<Buffer>) {
+    let data = data.map(|d| Bytes::copy_from_slice(d.as_ref())).unwrap_or_default();
+    socket.send(Message::Pong(data));
+}
+
+#[napi]
+pub fn ws_close(
+    socket: &External<Arc<WebSocketChannel>>,
+    code: Option<u16>,
+    reason: Option<String>,
+) {
+    socket.close(code.unwrap_or(1000), reason.unwrap_or_default());
+}
+
+#[napi]
+pub fn ws_subscribe(socket: &External<Arc<WebSocketChannel>>, topic: String) {
+    socket.subscribe(&topic);
+}
+
+#[napi]
+pub fn ws_unsubscribe(socket: &External<Arc<WebSocketChannel>>, topic: String) {
+    socket.unsubscribe(&topic);
+}
+
+#[napi]
+pub fn ws_is_subscribed(socket: &External<Arc<WebSocketChannel>>, topic: String) -> bool {
+    socket.topics.lock().contains(topic.as_str())
+}
+
+/// Sends to every other socket subscribed to `topic`, returning how many
+/// sockets the message was queued on
+#[napi]
+pub fn ws_publish(
+    socket: &External<Arc<WebSocketChannel>>,
+    topic: String,
+    data: Buffer,
+    binary: bool,
+) -> napi::Result<u32> {
+    Ok(publish(&socket.server_topics, &topic, to_message(data.as_ref(), binary)?, Some(socket.id)))
+}
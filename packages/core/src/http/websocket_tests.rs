@@ -0,0 +1,25 @@
+#[cfg(test)]
+mod tests {
+    use std::sync::Arc;
+
+    use tokio::sync::mpsc;
+    use tokio_tungstenite::tungstenite::Message;
+
+    use super::super::websocket::{Topics, WebSocketChannel, publish};
+
+    #[test]
+    fn test_topics_are_not_shared_between_servers() {
+        let first = Arc::new(Topics::new());
+        let second = Arc::new(Topics::new());
+
+        let (tx, mut rx) = mpsc::unbounded_channel();
+        let socket = Arc::new(WebSocketChannel::new(tx, first.clone()));
+        socket.subscribe("chat");
+
+        assert_eq!(publish(&second, "chat", Message::Text("hi".into()), None), 0);
+        assert!(rx.try_recv().is_err());
+
+        assert_eq!(publish(&first, "chat", Message::Text("hi".into()), None), 1);
+        assert!(rx.try_recv().is_ok());
+    }
+}
@@ -3,7 +3,8 @@ pub mod core;
 pub mod handler;
 pub mod router;
 pub mod routes;
+pub mod routes_tests;
 
 pub use core::ServerCore;
 pub use router::{GlobalRouter, HttpRouter};
-pub use routes::{CompiledRoute, ROUTER, Route};
+pub use routes::{CompiledRoute, Route};
@@ -1,11 +1,32 @@
-use hyper::server::conn::http1;
-use hyper_util::rt::TokioIo;
-
-use napi::threadsafe_function::{ThreadsafeFunction, ThreadsafeFunctionCallMode};
+use http_body_util::{BodyExt, Full};
+use hyper::{Request, body::Bytes, header::UPGRADE};
+use hyper_util::{
+    rt::{TokioExecutor, TokioIo, TokioTimer},
+    server::conn::auto,
+};
+
+use napi::{
+    Error,
+    bindgen_prelude::{Buffer, Function},
+    threadsafe_function::{ThreadsafeFunction, ThreadsafeFunctionCallMode},
+};
 use napi_derive::napi;
 
-use std::net::SocketAddr;
-use tokio::{net::TcpListener, sync::watch};
+use parking_lot::Mutex;
+use std::{
+    collections::HashMap,
+    net::SocketAddr,
+    pin::Pin,
+    sync::Arc,
+    task::{Context, Poll},
+    time::Duration,
+};
+use tokio::{
+    io::{AsyncRead, AsyncWrite, AsyncWriteExt, ReadBuf},
+    net::TcpListener,
+    sync::watch,
+    task::JoinSet,
+};
 
 #[cfg(unix)]
 use std::fs;
@@ -14,9 +35,23 @@ use std::path::Path;
 #[cfg(unix)]
 use tokio::net::UnixListener;
 
-use crate::server::{handler::handle_request, routes::insert_route};
+use crate::{
+    http::{
+        response::BoxedBody,
+        websocket::{Topics, WebSocketSessions, publish, to_message},
+    },
+    server::{
+        context::ContextObject,
+        handler::handle_request,
+        router::GlobalRouter,
+        routes::{insert_route, insert_websocket_route, set_not_found_route},
+    },
+};
+
+use super::routes::{Route, WebSocketRoute};
 
-use super::routes::Route;
+/// How long `close` waits for open connections when no timeout is given
+const DEFAULT_CLOSE_TIMEOUT: Duration = Duration::from_secs(10);
 
 #[derive(Clone)]
 #[napi(object)]
@@ -25,22 +60,92 @@ pub struct ServerOptionsCore {
     pub host: Option<String>,
     pub unix_socket: Option<String>,
     pub trust_proxy: Option<bool>,
+    /// Largest request body in bytes, larger ones are answered with 413 (default 10 MiB)
     pub max_request_size: Option<u32>,
+    /// Milliseconds to read a request and start its response. Slow headers
+    /// close the connection, a slow body is answered with 408 and a slow
+    /// handler with 504
     pub timeout: Option<u32>,
     pub reuse_port: Option<bool>,
+    /// `"strict"` (default) answers 500 on a response schema violation, `"warn"` only logs it
+    #[napi(ts_type = "'strict' | 'warn'")]
+    pub response_validation: Option<String>,
+    /// Answer HEAD requests from the matching GET route (default `true`)
+    pub auto_head: Option<bool>,
+    /// Answer OPTIONS requests with the allowed methods (default `true`)
+    pub auto_options: Option<bool>,
+}
+
+/// Request handed to `dispatch` instead of being read from a socket
+#[napi(object)]
+pub struct DispatchRequest {
+    pub method: String,
+    /// Path and query string
+    pub url: String,
+    pub headers: HashMap<String, String>,
+    pub body: Option<Buffer>,
+}
+
+#[napi(object)]
+pub struct DispatchResponse {
+    pub status: u16,
+    #[napi(ts_type = "Array<[string, string]>")]
+    pub headers: Vec<Vec<String>>,
+    pub body: DispatchBody,
+}
+
+/// Body of a dispatched response, read chunk by chunk as the handler sends it
+#[napi]
+pub struct DispatchBody {
+    body: tokio::sync::Mutex<BoxedBody>,
+}
+
+#[napi]
+impl DispatchBody {
+    /// Next chunk of the body, `null` once it has ended
+    #[napi]
+    pub async fn next(&self) -> napi::Result<Option<Buffer>> {
+        let mut body = self.body.lock().await;
+
+        while let Some(frame) = body.frame().await {
+            let frame = frame
+                .map_err(|e| Error::from_reason(format!("Failed to read response body: {e}")))?;
+            if let Ok(data) = frame.into_data() {
+                return Ok(Some(data.to_vec().into()));
+            }
+        }
+
+        Ok(None)
+    }
 }
 
 #[napi]
 pub struct ServerCore {
     config: ServerOptionsCore,
-    shutdown_tx: Option<watch::Sender<()>>,
+    /// Routes of this server only, so several servers can run side by side
+    router: Arc<GlobalRouter>,
+    /// WebSocket topics of this server, publishing never reaches another one
+    topics: Arc<Topics>,
+    /// Open WebSocket sessions, sent a 1001 close frame when the server closes
+    sessions: Arc<WebSocketSessions>,
+    /// Holds the drain timeout once `close` is called
+    shutdown_tx: Option<watch::Sender<Option<Duration>>>,
+    /// Set once every connection has finished or been dropped
+    closed_tx: watch::Sender<bool>,
 }
 
 #[napi]
 impl ServerCore {
     #[napi(constructor)]
     pub fn new(config: ServerOptionsCore) -> Self {
-        ServerCore { config, shutdown_tx: None }
+        ServerCore {
+            config,
+            router: Arc::new(GlobalRouter::new()),
+            topics: Arc::new(Topics::new()),
+            sessions: Arc::new(WebSocketSessions::default()),
+            shutdown_tx: None,
+            closed_tx: watch::channel(true).0,
+        }
     }
 
     #[napi]
@@ -55,7 +160,77 @@ impl ServerCore {
 
     #[napi]
     pub fn add_route(&mut self, route: Route) -> napi::Result<()> {
-        insert_route(route)
+        insert_route(&self.router, route)
+    }
+
+    #[napi(js_name = "addWebSocketRoute")]
+    pub fn add_websocket_route(&mut self, route: WebSocketRoute) -> napi::Result<()> {
+        insert_websocket_route(&self.router, route)
+    }
+
+    /// Handler answering requests that match no route, instead of the
+    /// default 404 response
+    #[napi]
+    pub fn set_not_found(
+        &mut self,
+        #[napi(ts_arg_type = "RouteHandler")] handler: Function<'static, ContextObject, ()>,
+    ) -> napi::Result<()> {
+        set_not_found_route(&self.router, handler)
+    }
+
+    /// Send a message to every socket subscribed to `topic`, returning how
+    /// many sockets it was queued on
+    #[napi]
+    pub fn publish(&self, topic: String, data: Buffer, binary: bool) -> napi::Result<u32> {
+        Ok(publish(&self.topics, &topic, to_message(data.as_ref(), binary)?, None))
+    }
+
+    /// Run a request through routing, validation and its handler without a listener.
+    /// Resolves once the response has started, its body streaming after.
+    #[napi]
+    pub async fn dispatch(&self, request: DispatchRequest) -> napi::Result<DispatchResponse> {
+        // Without a connection there is nothing to hand over to a WebSocket
+        if request.headers.keys().any(|name| name.eq_ignore_ascii_case(UPGRADE.as_str())) {
+            return Err(Error::from_reason(format!(
+                "Cannot dispatch {} {}: upgrades need a listening server",
+                request.method, request.url
+            )));
+        }
+
+        let mut builder = Request::builder().method(request.method.as_str()).uri(&request.url);
+        for (name, value) in &request.headers {
+            builder = builder.header(name.as_str(), value.as_str());
+        }
+
+        let body = request.body.map(|body| Bytes::copy_from_slice(&body)).unwrap_or_default();
+        let req = builder
+            .body(Full::new(body))
+            .map_err(|e| Error::from_reason(format!("Invalid request: {e}")))?;
+
+        let Ok(response) = handle_request(
+            req,
+            self.config.clone(),
+            self.router.clone(),
+            self.topics.clone(),
+            self.sessions.clone(),
+            None,
+        )
+        .await;
+        let (parts, body) = response.into_parts();
+
+        let headers = parts
+            .headers
+            .iter()
+            .filter_map(|(name, value)| {
+                value.to_str().ok().map(|value| vec![name.to_string(), value.to_string()])
+            })
+            .collect();
+
+        Ok(DispatchResponse {
+            status: parts.status.as_u16(),
+            headers,
+            body: DispatchBody { body: tokio::sync::Mutex::new(body) },
+        })
     }
 
     /// Start the HTTP server on TCP or Unix socket and execute the `ready` callback if provided.
@@ -70,8 +245,9 @@ impl ServerCore {
     /// The caller must guarantee these conditions.
     #[napi(ts_args_type = "ready: (() => void) | undefined")]
     pub async unsafe fn start(&mut self, ready: Option<ThreadsafeFunction<()>>) {
-        let (shutdown_tx, mut shutdown_rx) = watch::channel::<()>(());
+        let (shutdown_tx, mut shutdown_rx) = watch::channel::<Option<Duration>>(None);
         self.shutdown_tx = Some(shutdown_tx);
+        self.closed_tx.send_replace(false);
 
         #[cfg(unix)]
         if let Some(ref socket_path) = self.config.unix_socket {
@@ -85,7 +261,7 @@ impl ServerCore {
     async fn start_tcp(
         &self,
         ready: Option<ThreadsafeFunction<()>>,
-        shutdown_rx: &mut watch::Receiver<()>,
+        shutdown_rx: &mut watch::Receiver<Option<Duration>>,
     ) {
         let port = self.config.port.unwrap_or(3000);
         let host = self.config.host.as_deref().unwrap_or("0.0.0.0");
@@ -111,26 +287,28 @@ impl ServerCore {
             ready_cb.call(Ok(()), ThreadsafeFunctionCallMode::NonBlocking);
         }
 
+        let mut connections = JoinSet::new();
+
         loop {
             tokio::select! {
                 Ok((tcp, remote_addr)) = listener.accept() => {
-                    let io = TokioIo::new(tcp);
-                    let config = self.config.clone();
-
-                    tokio::spawn(async move {
-                        if let Err(err) = http1::Builder::new()
-                            .serve_connection(io, hyper::service::service_fn(move |req| {
-                                handle_request(req, config.clone(), Some(remote_addr))
-                            }))
-                            .await
-                        {
-                            eprintln!("Error serving connection: {err:?}");
-                        }
-                    });
+                    connections.spawn(serve_connection(
+                        tcp,
+                        self.config.clone(),
+                        self.router.clone(),
+                        self.topics.clone(),
+                        self.sessions.clone(),
+                        Some(remote_addr),
+                        shutdown_rx.clone(),
+                    ));
                 },
+                Some(_) = connections.join_next() => {},
                 _ = shutdown_rx.changed() => break,
             }
         }
+
+        drop(listener);
+        self.drain(connections, shutdown_rx).await;
     }
 
     #[cfg(unix)]
@@ -138,7 +316,7 @@ impl ServerCore {
         &self,
         socket_path: &str,
         ready: Option<ThreadsafeFunction<()>>,
-        shutdown_rx: &mut watch::Receiver<()>,
+        shutdown_rx: &mut watch::Receiver<Option<Duration>>,
     ) {
         let path = Path::new(socket_path);
 
@@ -154,35 +332,206 @@ impl ServerCore {
             ready_cb.call(Ok(()), ThreadsafeFunctionCallMode::NonBlocking);
         }
 
+        let mut connections = JoinSet::new();
+
         loop {
             tokio::select! {
                 Ok((stream, _)) = listener.accept() => {
-                    let io = TokioIo::new(stream);
-                    let config = self.config.clone();
-
-                    tokio::spawn(async move {
-                        if let Err(err) = http1::Builder::new()
-                            .serve_connection(io, hyper::service::service_fn(move |req| {
-                                handle_request(req, config.clone(), None)
-                            }))
-                            .await
-                        {
-                            eprintln!("Error serving connection: {err:?}");
-                        }
-                    });
+                    connections.spawn(serve_connection(
+                        stream,
+                        self.config.clone(),
+                        self.router.clone(),
+                        self.topics.clone(),
+                        self.sessions.clone(),
+                        None,
+                        shutdown_rx.clone(),
+                    ));
                 },
+                Some(_) = connections.join_next() => {},
                 _ = shutdown_rx.changed() => break,
             }
         }
 
+        drop(listener);
         let _ = fs::remove_file(path);
+        self.drain(connections, shutdown_rx).await;
+    }
+
+    /// Waits for open connections to finish their in-flight requests, then
+    /// sends a 1001 close frame to open WebSockets and waits for them to
+    /// close. Whatever is still open once the timeout given to `close`
+    /// passes is dropped.
+    async fn drain(
+        &self,
+        mut connections: JoinSet<()>,
+        shutdown_rx: &watch::Receiver<Option<Duration>>,
+    ) {
+        let timeout = shutdown_rx.borrow().unwrap_or(DEFAULT_CLOSE_TIMEOUT);
+        let mut sessions = JoinSet::new();
+        let drained = async {
+            while connections.join_next().await.is_some() {}
+
+            // No connection is left to upgrade, so no socket opens after this
+            sessions = self.sessions.close_all();
+            while sessions.join_next().await.is_some() {}
+        };
+
+        if tokio::time::timeout(timeout, drained).await.is_err() {
+            connections.shutdown().await;
+            sessions.shutdown().await;
+            self.sessions.close_all().shutdown().await;
+        }
+
+        self.closed_tx.send_replace(true);
     }
 
+    /// Stop accepting connections and resolve once the open ones have
+    /// finished their in-flight requests and streams, and open WebSockets
+    /// have answered a 1001 close frame. Connections still open after
+    /// `timeout` milliseconds (default 10 seconds) are dropped.
     #[napi]
-    pub fn close(&self) {
-        if let Some(tx) = &self.shutdown_tx {
-            let _ = tx.send(());
+    pub async fn close(&self, timeout: Option<u32>) {
+        let Some(tx) = &self.shutdown_tx else {
+            return;
+        };
+
+        let mut closed_rx = self.closed_tx.subscribe();
+        tx.send_replace(Some(
+            timeout.map_or(DEFAULT_CLOSE_TIMEOUT, |ms| Duration::from_millis(ms.into())),
+        ));
+        let _ = closed_rx.wait_for(|closed| *closed).await;
+    }
+}
+
+/// Serves a connection until it closes. Once the server shuts down, the
+/// request in flight is finished and the connection is closed after it.
+async fn serve_connection<I>(
+    io: I,
+    config: ServerOptionsCore,
+    router: Arc<GlobalRouter>,
+    topics: Arc<Topics>,
+    sessions: Arc<WebSocketSessions>,
+    remote_addr: Option<SocketAddr>,
+    mut shutdown_rx: watch::Receiver<Option<Duration>>,
+) where
+    I: AsyncRead + AsyncWrite + Unpin + Send + 'static,
+{
+    // Serves HTTP/1.1 and HTTP/2, told apart by the HTTP/2 connection preface
+    let mut builder = auto::Builder::new(TokioExecutor::new());
+    let mut http1 = builder.http1();
+    http1.timer(TokioTimer::new());
+
+    // Without a timeout, hyper's own 30 second limit on request heads applies
+    if let Some(ms) = config.timeout {
+        http1.header_read_timeout(Duration::from_millis(ms.into()));
+    }
+
+    let mut io = SharedIo::new(io);
+    let conn = builder.serve_connection_with_upgrades(
+        TokioIo::new(io.clone()),
+        hyper::service::service_fn(move |req| {
+            handle_request(
+                req,
+                config.clone(),
+                router.clone(),
+                topics.clone(),
+                sessions.clone(),
+                remote_addr,
+            )
+        }),
+    );
+    tokio::pin!(conn);
+
+    let result = tokio::select! {
+        result = conn.as_mut() => result,
+        _ = shutdown_rx.changed() => {
+            conn.as_mut().graceful_shutdown();
+            conn.await
+        }
+    };
+
+    match result {
+        Err(err) if err.downcast_ref::<hyper::Error>().is_some_and(hyper::Error::is_timeout) => {
+            // hyper closes the connection without a response once a request
+            // head is late, an idle keep-alive connection is just closed
+            if io.mid_request() {
+                let _ = io.write_all(REQUEST_TIMEOUT_RESPONSE).await;
+                let _ = io.shutdown().await;
+            }
         }
+        Err(err) => eprintln!("Error serving connection: {err:?}"),
+        Ok(()) => {}
+    }
+}
+
+/// Sent when a request head does not arrive within the server's `timeout`
+const REQUEST_TIMEOUT_RESPONSE: &[u8] =
+    b"HTTP/1.1 408 Request Timeout\r\nconnection: close\r\ncontent-length: 0\r\n\r\n";
+
+/// A connection's IO shared with `serve_connection`, which still writes to it
+/// once hyper gives up on the connection
+struct SharedIo<I> {
+    inner: Arc<Mutex<SharedIoState<I>>>,
+}
+
+struct SharedIoState<I> {
+    io: I,
+    /// Bytes of a request arrived since the last response was written
+    mid_request: bool,
+}
+
+impl<I> SharedIo<I> {
+    fn new(io: I) -> Self {
+        Self { inner: Arc::new(Mutex::new(SharedIoState { io, mid_request: false })) }
+    }
+
+    fn mid_request(&self) -> bool {
+        self.inner.lock().mid_request
+    }
+}
+
+impl<I> Clone for SharedIo<I> {
+    fn clone(&self) -> Self {
+        Self { inner: self.inner.clone() }
+    }
+}
+
+impl<I: AsyncRead + Unpin> AsyncRead for SharedIo<I> {
+    fn poll_read(
+        self: Pin<&mut Self>,
+        cx: &mut Context<'_>,
+        buf: &mut ReadBuf<'_>,
+    ) -> Poll<std::io::Result<()>> {
+        let mut state = self.inner.lock();
+        let filled = buf.filled().len();
+        let poll = Pin::new(&mut state.io).poll_read(cx, buf);
+        if buf.filled().len() > filled {
+            state.mid_request = true;
+        }
+        poll
+    }
+}
+
+impl<I: AsyncWrite + Unpin> AsyncWrite for SharedIo<I> {
+    fn poll_write(
+        self: Pin<&mut Self>,
+        cx: &mut Context<'_>,
+        buf: &[u8],
+    ) -> Poll<std::io::Result<usize>> {
+        let mut state = self.inner.lock();
+        let poll = Pin::new(&mut state.io).poll_write(cx, buf);
+        if matches!(poll, Poll::Ready(Ok(written)) if written > 0) {
+            state.mid_request = false;
+        }
+        poll
+    }
+
+    fn poll_flush(self: Pin<&mut Self>, cx: &mut Context<'_>) -> Poll<std::io::Result<()>> {
+        Pin::new(&mut self.inner.lock().io).poll_flush(cx)
+    }
+
+    fn poll_shutdown(self: Pin<&mut Self>, cx: &mut Context<'_>) -> Poll<std::io::Result<()>> {
+        Pin::new(&mut self.inner.lock().io).poll_shutdown(cx)
     }
 }
 
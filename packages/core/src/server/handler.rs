@@ -1,53 +1,153 @@
-use http_body_util::{BodyExt, Full, StreamBody};
+use http_body_util::{BodyExt, Full, LengthLimitError, StreamBody};
 use hyper::{
-    Request, Response,
-    body::{Bytes, Frame, Incoming},
-    header::{HeaderName, HeaderValue},
+    Method, Request, Response,
+    body::{Body, Bytes, Frame},
+    header::{
+        ACCEPT, ALLOW, CONNECTION, CONTENT_LENGTH, CONTENT_TYPE, HeaderName, HeaderValue,
+        SEC_WEBSOCKET_ACCEPT, SEC_WEBSOCKET_KEY, SEC_WEBSOCKET_VERSION, UPGRADE,
+    },
 };
 
 use napi::{bindgen_prelude::External, threadsafe_function::ThreadsafeFunctionCallMode};
 use serde_json::json;
 
 use futures_util::stream;
-use std::{convert::Infallible, net::SocketAddr, sync::Arc};
-use tokio::sync::mpsc;
+use std::{convert::Infallible, future::Future, net::SocketAddr, sync::Arc, time::Duration};
+use tokio::{
+    sync::mpsc,
+    time::{Instant, error::Elapsed, timeout_at},
+};
+use tokio_tungstenite::tungstenite::handshake::derive_accept_key;
 
 use crate::{
     http::{
         request::RequestCore,
         response::{BoxedBody, ResponseChannel, ResponseMessage},
+        websocket::{Topics, WebSocketSessions, serve_websocket},
     },
     server::{
         context::ContextObject,
         core::ServerOptionsCore,
-        routes::{ROUTER, ResponseStrategy},
+        router::{GlobalRouter, RouteMatch},
+        routes::ResponseStrategy,
     },
     validation::parser::*,
 };
 
-pub async fn handle_request(
-    req: Request<Incoming>,
+/// Largest request body read when neither the route nor the server sets
+/// `max_request_size`
+const DEFAULT_MAX_REQUEST_SIZE: u32 = 10 * 1024 * 1024;
+
+pub async fn handle_request<B>(
+    req: Request<B>,
     config: ServerOptionsCore,
+    router: Arc<GlobalRouter>,
+    topics: Arc<Topics>,
+    sessions: Arc<WebSocketSessions>,
     remote_addr: Option<SocketAddr>,
-) -> Result<Response<BoxedBody>, std::convert::Infallible> {
+) -> Result<Response<BoxedBody>, std::convert::Infallible>
+where
+    B: Body<Data = Bytes> + Send,
+    B::Error: std::error::Error + Send + Sync + 'static,
+{
+    if req.method() != Method::HEAD {
+        return route_request(req, config, &router, topics, sessions, remote_addr).await;
+    }
+
+    // HEAD responses keep the headers of the response they stand for
+    let (mut parts, body) =
+        route_request(req, config, &router, topics, sessions, remote_addr).await?.into_parts();
+    if let Some(len) = body.size_hint().exact()
+        && !parts.headers.contains_key(CONTENT_LENGTH)
+    {
+        parts.headers.insert(CONTENT_LENGTH, HeaderValue::from(len));
+    }
+
+    Ok(Response::from_parts(parts, Full::new(Bytes::new()).map_err(|never| match never {}).boxed()))
+}
+
+async fn route_request<B>(
+    mut req: Request<B>,
+    config: ServerOptionsCore,
+    router: &GlobalRouter,
+    topics: Arc<Topics>,
+    sessions: Arc<WebSocketSessions>,
+    remote_addr: Option<SocketAddr>,
+) -> Result<Response<BoxedBody>, std::convert::Infallible>
+where
+    B: Body<Data = Bytes> + Send,
+    B::Error: std::error::Error + Send + Sync + 'static,
+{
     let method = req.method().to_string();
     let pathname = req.uri().path().to_string();
 
-    let matched = match ROUTER.find(&method, &pathname) {
+    let auto_head = config.auto_head != Some(false) && method == "HEAD";
+    let found = router
+        .find(&method, &pathname)
+        .or_else(|| auto_head.then(|| head_route(router, &pathname)).flatten());
+
+    let mut allowed = Vec::new();
+    let matched = match found {
         Some(m) => m,
         None => {
+            allowed = allowed_methods(router, &pathname, &config);
+
+            if method == "OPTIONS" && config.auto_options != Some(false) && !allowed.is_empty() {
+                return Ok(Response::builder()
+                    .status(204)
+                    .header(ALLOW, allowed.join(", "))
+                    .body(Full::new(Bytes::new()).map_err(|never| match never {}).boxed())
+                    .unwrap());
+            }
+
+            // The not-found route also answers methods missing on a path, told
+            // the path's methods through `RequestCore::allowed`
+            match router.not_found() {
+                Some(m) => m,
+                None if !allowed.is_empty() => {
+                    let mut response = error_response(
+                        prefers_json(&req),
+                        405,
+                        "Method Not Allowed",
+                        format!("{method} is not allowed on {pathname}"),
+                    );
+                    response
+                        .headers_mut()
+                        .insert(ALLOW, HeaderValue::from_str(&allowed.join(", ")).unwrap());
+                    return Ok(response);
+                }
+                None => {
+                    return Ok(error_response(
+                        prefers_json(&req),
+                        404,
+                        "Not Found",
+                        format!("Cannot {method} {pathname}"),
+                    ));
+                }
+            }
+        }
+    };
+
+    let route = matched.route;
+
+    // WebSocket routes answer the handshake once the request passes validation
+    let upgrade = if let ResponseStrategy::WebSocket(_) = route.strategy {
+        let Some(accept_key) = websocket_accept_key(&req) else {
             return Ok(Response::builder()
-                .status(404)
+                .status(426)
+                .header(UPGRADE, "websocket")
                 .body(
-                    Full::new(Bytes::from_static(b"Not Found"))
+                    Full::new(Bytes::from_static(b"Upgrade Required"))
                         .map_err(|never| match never {})
                         .boxed(),
                 )
                 .unwrap());
-        }
-    };
+        };
 
-    let route = matched.route;
+        Some((accept_key, hyper::upgrade::on(&mut req)))
+    } else {
+        None
+    };
 
     if let ResponseStrategy::FullStatic(ref response) = route.strategy {
         let (parts, body) = response.clone().into_parts();
@@ -80,23 +180,71 @@ pub async fn handle_request(
             .unwrap());
     }
 
-    let mut req_core =
-        match RequestCore::new(req, remote_addr, config.trust_proxy.unwrap_or(false)).await {
-            Ok(core) => core,
-            Err(e) => {
-                eprintln!("Error creating request: {e}");
-                return Ok(Response::builder()
-                    .status(400)
-                    .body(
-                        Full::new(Bytes::from_static(b"Bad Request"))
-                            .map_err(|never| match never {})
-                            .boxed(),
-                    )
-                    .unwrap());
-            }
-        };
+    let max_request_size = route
+        .limits
+        .max_request_size
+        .or(config.max_request_size)
+        .unwrap_or(DEFAULT_MAX_REQUEST_SIZE);
+    let deadline = route
+        .limits
+        .timeout
+        .or(config.timeout)
+        .map(|ms| Instant::now() + Duration::from_millis(ms.into()));
+    let json = prefers_json(&req);
+
+    let content_length = req
+        .headers()
+        .get(CONTENT_LENGTH)
+        .and_then(|value| value.to_str().ok()?.parse::<u64>().ok());
+    if content_length.is_some_and(|len| len > max_request_size.into()) {
+        return Ok(error_response(
+            json,
+            413,
+            "Payload Too Large",
+            format!("Request body exceeds {max_request_size} bytes"),
+        ));
+    }
+
+    let read = RequestCore::new(
+        req,
+        remote_addr,
+        config.trust_proxy.unwrap_or(false),
+        max_request_size as usize,
+    );
+
+    let mut req_core = match until(deadline, read).await {
+        Ok(Ok(core)) => core,
+        Ok(Err(e)) if e.is::<LengthLimitError>() => {
+            return Ok(error_response(
+                json,
+                413,
+                "Payload Too Large",
+                format!("Request body exceeds {max_request_size} bytes"),
+            ));
+        }
+        Ok(Err(e)) => {
+            eprintln!("Error creating request: {e}");
+            return Ok(Response::builder()
+                .status(400)
+                .body(
+                    Full::new(Bytes::from_static(b"Bad Request"))
+                        .map_err(|never| match never {})
+                        .boxed(),
+                )
+                .unwrap());
+        }
+        Err(_) => {
+            return Ok(error_response(
+                json,
+                408,
+                "Request Timeout",
+                "Request body was not received in time".to_string(),
+            ));
+        }
+    };
 
     req_core.params = matched.params.into_iter().collect();
+    req_core.allowed = allowed;
 
     if let Some(schema) = &route.schema {
         if let Some(params_schema) = &schema.params
@@ -205,6 +353,52 @@ pub async fn handle_request(
                 )
                 .unwrap());
         }
+
+        if let Some(cookie_schema) = &schema.cookie
+            && let Err(e) = parse_cookies(&req_core.cookies_raw, cookie_schema)
+        {
+            let error_msg = format!("Validation error in {}: {}", e.field, e.message);
+            return Ok(Response::builder()
+                .status(400)
+                .header("Content-Type", "application/json")
+                .body(
+                    Full::new(Bytes::from(
+                        json!({
+                            "error": "Validation Error",
+                            "message": error_msg
+                        })
+                        .to_string(),
+                    ))
+                    .map_err(|never| match never {})
+                    .boxed(),
+                )
+                .unwrap());
+        }
+    }
+
+    if let (ResponseStrategy::WebSocket(handler), Some((accept_key, on_upgrade))) =
+        (&route.strategy, upgrade)
+    {
+        let handler = handler.clone();
+        let message_schema = route.schema.as_ref().and_then(|schema| schema.body.clone());
+
+        sessions.clone().spawn(async move {
+            match on_upgrade.await {
+                Ok(upgraded) => {
+                    serve_websocket(upgraded, handler, req_core, message_schema, topics, sessions)
+                        .await
+                }
+                Err(e) => eprintln!("WebSocket upgrade failed: {e}"),
+            }
+        });
+
+        return Ok(Response::builder()
+            .status(101)
+            .header(CONNECTION, "Upgrade")
+            .header(UPGRADE, "websocket")
+            .header(SEC_WEBSOCKET_ACCEPT, accept_key)
+            .body(Full::new(Bytes::new()).map_err(|never| match never {}).boxed())
+            .unwrap());
     }
 
     let (response_tx, mut response_rx) = mpsc::unbounded_channel();
@@ -219,9 +413,79 @@ pub async fn handle_request(
         let _ = handler.call(ctx_obj, ThreadsafeFunctionCallMode::NonBlocking);
     }
 
-    if let Some(first_msg) = response_rx.recv().await {
+    let Ok(first_msg) = until(deadline, response_rx.recv()).await else {
+        res_builder.abort();
+        return Ok(error_response(
+            json,
+            504,
+            "Gateway Timeout",
+            format!("{method} {pathname} did not respond in time"),
+        ));
+    };
+
+    res_builder.started();
+
+    let has_response_schema = |status: &u16| {
+        route.schema.as_ref().is_some_and(|schema| schema.response.contains_key(status))
+    };
+
+    let first_msg = match first_msg {
+        // A streamed body is only known once it ends, so one with a response
+        // schema is collected and checked like a complete one. Event streams
+        // never end and are sent unchecked
+        Some(ResponseMessage::StreamStart { status, headers }) if has_response_schema(&status) => {
+            if is_event_stream(&headers) {
+                eprintln!(
+                    "Event stream {status} response for {method} {pathname} is not validated"
+                );
+                Some(ResponseMessage::StreamStart { status, headers })
+            } else {
+                let mut body = Vec::new();
+                while let Some(ResponseMessage::StreamChunk { data }) = response_rx.recv().await {
+                    body.extend_from_slice(&data);
+                }
+                Some(ResponseMessage::Complete { status, headers, body: Bytes::from(body) })
+            }
+        }
+        first_msg => first_msg,
+    };
+
+    if let Some(first_msg) = first_msg {
         match first_msg {
             ResponseMessage::Complete { status, headers, body } => {
+                if let Some(response_schema) =
+                    route.schema.as_ref().and_then(|schema| schema.response.get(&status))
+                    && let Err(e) = parse_response(
+                        &body,
+                        headers.iter().any(|(name, value)| {
+                            name.eq_ignore_ascii_case("content-type") && value.contains("json")
+                        }),
+                        response_schema,
+                    )
+                {
+                    let error_msg = format!("Validation error in {}: {}", e.field, e.message);
+
+                    eprintln!("Invalid {status} response for {method} {pathname}: {error_msg}");
+
+                    if config.response_validation.as_deref() != Some("warn") {
+                        return Ok(Response::builder()
+                            .status(500)
+                            .header("Content-Type", "application/json")
+                            .body(
+                                Full::new(Bytes::from(
+                                    json!({
+                                        "error": "Response Validation Error",
+                                        "message": error_msg
+                                    })
+                                    .to_string(),
+                                ))
+                                .map_err(|never| match never {})
+                                .boxed(),
+                            )
+                            .unwrap());
+                    }
+                }
+
                 let mut response = Response::builder().status(status);
 
                 for (name, value) in headers {
@@ -271,3 +535,118 @@ pub async fn handle_request(
         .body(Full::new(Bytes::new()).map_err(|never| match never {}).boxed())
         .unwrap())
 }
+
+/// Runs `future` until `deadline`, or to completion without one
+async fn until<F: Future>(deadline: Option<Instant>, future: F) -> Result<F::Output, Elapsed> {
+    match deadline {
+        Some(deadline) => timeout_at(deadline, future).await,
+        None => Ok(future.await),
+    }
+}
+
+/// GET route answering HEAD requests to `path`. WebSocket routes only
+/// answer upgrades, so they have none
+fn head_route(router: &GlobalRouter, path: &str) -> Option<RouteMatch> {
+    router
+        .find("GET", path)
+        .filter(|matched| !matches!(matched.route.strategy, ResponseStrategy::WebSocket(_)))
+}
+
+/// Methods with a route matching `path`, along with the HEAD and OPTIONS
+/// methods answered automatically
+fn allowed_methods(router: &GlobalRouter, path: &str, config: &ServerOptionsCore) -> Vec<String> {
+    let mut methods = router.allowed_methods(path);
+    if methods.is_empty() {
+        return methods;
+    }
+
+    let mut add = |method: &str| {
+        if !methods.iter().any(|m| m == method) {
+            methods.push(method.to_string());
+        }
+    };
+
+    if config.auto_head != Some(false) && head_route(router, path).is_some() {
+        add("HEAD");
+    }
+    if config.auto_options != Some(false) {
+        add("OPTIONS");
+    }
+
+    methods.sort_unstable();
+    methods
+}
+
+fn is_event_stream(headers: &[(String, String)]) -> bool {
+    headers.iter().any(|(name, value)| {
+        name.eq_ignore_ascii_case("content-type") && value.starts_with("text/event-stream")
+    })
+}
+
+/// Plain text error response, or JSON when `json` is set because the
+/// request's `Accept` header prefers it
+fn error_response(
+    json: bool,
+    status: u16,
+    error: &'static str,
+    message: String,
+) -> Response<BoxedBody> {
+    let response = Response::builder().status(status);
+
+    let (response, body) = if json {
+        let body = json!({ "error": error, "message": message }).to_string();
+        (response.header(CONTENT_TYPE, "application/json"), Bytes::from(body))
+    } else {
+        (response.header(CONTENT_TYPE, "text/plain"), Bytes::from_static(error.as_bytes()))
+    };
+
+    response.body(Full::new(body).map_err(|never| match never {}).boxed()).unwrap()
+}
+
+/// Whether the media type with the highest quality in `Accept` is JSON
+fn prefers_json<B>(req: &Request<B>) -> bool {
+    let Some(accept) = req.headers().get(ACCEPT).and_then(|value| value.to_str().ok()) else {
+        return false;
+    };
+
+    let mut best: Option<(&str, f32)> = None;
+    for range in accept.split(',') {
+        let mut parts = range.split(';');
+        let media_type = parts.next().unwrap_or_default().trim();
+        let quality = parts
+            .filter_map(|param| param.trim().strip_prefix("q="))
+            .find_map(|q| q.parse::<f32>().ok())
+            .unwrap_or(1.0);
+
+        if best.is_none_or(|(_, best_quality)| quality > best_quality) {
+            best = Some((media_type, quality));
+        }
+    }
+
+    best.is_some_and(|(media_type, quality)| {
+        quality > 0.0 && (media_type == "application/json" || media_type.ends_with("+json"))
+    })
+}
+
+/// `Sec-WebSocket-Accept` value for a WebSocket handshake request, `None`
+/// when the request is not a valid upgrade
+fn websocket_accept_key<B>(req: &Request<B>) -> Option<String> {
+    let headers = req.headers();
+    let has_token = |name: HeaderName, token: &str| {
+        headers
+            .get_all(name)
+            .iter()
+            .filter_map(|value| value.to_str().ok())
+            .any(|value| value.split(',').any(|t| t.trim().eq_ignore_ascii_case(token)))
+    };
+
+    if req.method() != Method::GET
+        || !has_token(CONNECTION, "upgrade")
+        || !has_token(UPGRADE, "websocket")
+        || headers.get(SEC_WEBSOCKET_VERSION).is_none_or(|version| version != "13")
+    {
+        return None;
+    }
+
+    headers.get(SEC_WEBSOCKET_KEY).map(|key| derive_accept_key(key.as_bytes()))
+}
@@ -5,6 +5,15 @@ use std::sync::Arc;
 
 use super::routes::CompiledRoute;
 
+/// Method key of routes that answer every method
+pub const ANY_METHOD: &str = "ALL";
+
+/// Param holding the part of the path matched by a wildcard route
+pub const WILDCARD_PARAM: &str = "*";
+
+// Name of the catch-all segment in the trie, exposed as `WILDCARD_PARAM`
+const CATCH_ALL_PARAM: &str = "wildcard";
+
 pub struct TrieRouter {
     inner: MatchitRouter<Arc<CompiledRoute>>,
 }
@@ -48,16 +57,48 @@ impl HttpRouter {
     pub fn insert(&mut self, route: CompiledRoute) -> Result<(), String> {
         let route_arc = Arc::new(route);
 
-        if Self::is_static_route(&route_arc.path) {
-            self.static_routes.insert(route_arc.path.clone(), route_arc.clone());
+        if !route_arc.wildcard {
+            let path = route_arc.path.clone();
+            return self.insert_path(&path, route_arc);
+        }
+
+        // Wildcard routes match their prefix and every path below it
+        let prefix = route_arc.path.trim_end_matches('/').to_string();
+        if prefix.is_empty() {
+            self.insert_path("/", route_arc.clone())?;
         } else {
-            self.dynamic_routes.insert(&route_arc.path, route_arc.clone())?;
+            self.insert_path(&prefix, route_arc.clone())?;
+            self.insert_path(&format!("{prefix}/"), route_arc.clone())?;
+        }
+
+        self.insert_path(&format!("{prefix}/{{*{CATCH_ALL_PARAM}}}"), route_arc)
+    }
+
+    fn insert_path(&mut self, path: &str, route: Arc<CompiledRoute>) -> Result<(), String> {
+        if Self::is_static_route(path) {
+            self.static_routes.insert(path.into(), route);
+        } else {
+            self.dynamic_routes.insert(path, route)?;
         }
 
         Ok(())
     }
 
     pub fn find<'a>(&'a self, path: &'a str) -> Option<RouteMatch> {
+        let mut found = self.find_route(path)?;
+
+        // The prefix of a wildcard route matches with an empty rest
+        if found.route.wildcard {
+            let rest = found.params.entry(WILDCARD_PARAM.to_string()).or_default().clone();
+            if let Some(name) = &found.route.rest_param {
+                found.params.insert(name.to_string(), rest);
+            }
+        }
+
+        Some(found)
+    }
+
+    fn find_route<'a>(&'a self, path: &'a str) -> Option<RouteMatch> {
         if let Some(route) = self.static_routes.get(path) {
             return Some(RouteMatch { route: route.clone(), params: AHashMap::new() });
         }
@@ -66,6 +107,7 @@ impl HttpRouter {
             let mut params = AHashMap::new();
 
             for (key, value) in matched.params.iter() {
+                let key = if key == CATCH_ALL_PARAM { WILDCARD_PARAM } else { key };
                 params.insert(key.to_string(), value.to_string());
             }
 
@@ -87,6 +129,7 @@ pub struct RouteMatch {
 
 pub struct GlobalRouter {
     routers: RwLock<AHashMap<Box<str>, HttpRouter>>,
+    not_found: RwLock<Option<Arc<CompiledRoute>>>,
 }
 
 impl Default for GlobalRouter {
@@ -97,7 +140,7 @@ impl Default for GlobalRouter {
 
 impl GlobalRouter {
     pub fn new() -> Self {
-        Self { routers: RwLock::new(AHashMap::new()) }
+        Self { routers: RwLock::new(AHashMap::new()), not_found: RwLock::new(None) }
     }
 
     pub fn insert(&self, method: &str, route: CompiledRoute) -> Result<(), String> {
@@ -110,11 +153,35 @@ impl GlobalRouter {
     pub fn find(&self, method: &str, path: &str) -> Option<RouteMatch> {
         let routers = self.routers.read();
 
-        if let Some(router) = routers.get(method) {
-            return router.find(path);
+        if let Some(matched) = routers.get(method).and_then(|router| router.find(path)) {
+            return Some(matched);
         }
 
-        None
+        routers.get(ANY_METHOD).and_then(|router| router.find(path))
+    }
+
+    /// Methods with a route matching `path`, sorted, for the `Allow` header
+    pub fn allowed_methods(&self, path: &str) -> Vec<String> {
+        let routers = self.routers.read();
+
+        let mut methods: Vec<String> = routers
+            .iter()
+            .filter(|(method, router)| &***method != ANY_METHOD && router.find(path).is_some())
+            .map(|(method, _)| method.to_string())
+            .collect();
+        methods.sort_unstable();
+
+        methods
+    }
+
+    /// Route answering requests that match no route
+    pub fn set_not_found(&self, route: CompiledRoute) {
+        *self.not_found.write() = Some(Arc::new(route));
+    }
+
+    pub fn not_found(&self) -> Option<RouteMatch> {
+        let route = self.not_found.read().clone()?;
+        Some(RouteMatch { route, params: AHashMap::new() })
     }
 
     pub fn route_count(&self) -> usize {
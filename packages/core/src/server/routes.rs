@@ -11,11 +11,12 @@ use napi::{bindgen_prelude::Function, threadsafe_function::ThreadsafeFunction};
 use base64::Engine;
 use base64::engine::general_purpose;
 
-use once_cell::sync::Lazy;
 use serde_json::{Value, from_str, from_value};
 
+use crate::http::websocket::{WebSocketEvent, WebSocketHandler};
 use crate::server::context::ContextObject;
-use crate::server::router::GlobalRouter;
+use crate::server::router::{ANY_METHOD, GlobalRouter};
+use crate::validation::parser::resolve_refs;
 use crate::validation::types::SchemaType;
 
 pub type RouteHandler = ThreadsafeFunction<ContextObject, (), ContextObject, napi::Status, false>;
@@ -24,8 +25,19 @@ pub struct CompiledRoute {
     pub method: Box<str>,
     pub path: Box<str>,
     pub segments: Box<[Box<str>]>,
+    pub wildcard: bool,
+    /// Name of a `*name` catch-all segment, also holding the rest of the path
+    pub rest_param: Option<Box<str>>,
     pub strategy: ResponseStrategy,
     pub schema: Option<RouteSchema>,
+    pub limits: RouteLimits,
+}
+
+/// Overrides of the server's `max_request_size` and `timeout` for one route
+#[derive(Clone, Copy, Default)]
+pub struct RouteLimits {
+    pub max_request_size: Option<u32>,
+    pub timeout: Option<u32>,
 }
 
 #[derive(Clone)]
@@ -34,19 +46,36 @@ pub struct RouteSchema {
     pub query: Option<SchemaType>,
     pub body: Option<SchemaType>,
     pub headers: Option<SchemaType>,
+    pub cookie: Option<SchemaType>,
+    pub response: HashMap<u16, SchemaType>,
 }
 
-pub static ROUTER: Lazy<GlobalRouter> = Lazy::new(GlobalRouter::new);
-
 #[napi(object)]
 pub struct Route {
     pub path: String,
-    #[napi(ts_type = "'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE'")]
+    #[napi(
+        ts_type = "'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE' | 'ALL'"
+    )]
     pub method: String,
     #[napi(ts_type = "RouteHandler")]
     pub handler: Function<'static, ContextObject, ()>,
     pub schema: Option<String>,
     pub static_response: Option<String>,
+    /// Also match every path below `path`, with the rest of the path in the `*` param
+    pub wildcard: Option<bool>,
+    /// Overrides the server's `max_request_size` for this route
+    pub max_request_size: Option<u32>,
+    /// Overrides the server's `timeout` for this route
+    pub timeout: Option<u32>,
+}
+
+#[napi(object)]
+pub struct WebSocketRoute {
+    pub path: String,
+    #[napi(ts_type = "WebSocketHandler")]
+    pub handler: Function<'static, WebSocketEvent, ()>,
+    /// Route schema, its `body` validating each incoming message
+    pub schema: Option<String>,
 }
 
 #[derive(Clone)]
@@ -54,38 +83,144 @@ pub enum ResponseStrategy {
     Dynamic(Arc<RouteHandler>),
     FullStatic(Response<Full<Bytes>>),
     ParamTemplate { template: String, params: Vec<String>, headers: HashMap<String, String> },
+    WebSocket(Arc<WebSocketHandler>),
 }
 
-fn convert_path_to_matchit_format(path: &str) -> String {
-    if !path.contains(':') {
-        return path.to_string();
-    }
+/// Converts `:param` segments to matchit's `{param}`. Each optional
+/// `:param?` segment also registers the path without that segment. An
+/// optional segment right after an omitted one is omitted as well, so a run
+/// of optional segments only shortens from the end
+pub fn convert_path_to_matchit_format(path: &str) -> Vec<String> {
+    // Variant segments, and whether the last segment was an omitted optional
+    let mut variants: Vec<(Vec<String>, bool)> = vec![(Vec::new(), false)];
 
-    let parts: Vec<&str> = path.split('/').collect();
-    let converted_parts: Vec<String> = parts
-        .iter()
-        .map(|part| {
-            if let Some(stripped) = part.strip_prefix(':') {
-                format!("{{{stripped}}}")
-            } else {
-                part.to_string()
+    for part in path.split('/') {
+        let Some(name) = part.strip_prefix(':') else {
+            for (parts, omitted) in &mut variants {
+                parts.push(part.to_string());
+                *omitted = false;
             }
-        })
-        .collect();
+            continue;
+        };
+
+        let Some(name) = name.strip_suffix('?') else {
+            for (parts, omitted) in &mut variants {
+                parts.push(format!("{{{name}}}"));
+                *omitted = false;
+            }
+            continue;
+        };
+
+        let mut next = Vec::with_capacity(variants.len() * 2);
+        for (parts, omitted) in variants {
+            if omitted {
+                next.push((parts, true));
+                continue;
+            }
+
+            let mut with_param = parts.clone();
+            with_param.push(format!("{{{name}}}"));
+            next.push((parts, true));
+            next.push((with_param, false));
+        }
+        variants = next;
+    }
+
+    variants
+        .into_iter()
+        .map(|(parts, _)| parts.join("/"))
+        .map(|path| if path.is_empty() { "/".to_string() } else { path })
+        .collect()
+}
+
+/// Splits off a trailing `*` or `*name` segment, which makes the route match
+/// every path below the rest of it, along with the segment's name
+pub fn split_catch_all(path: &str) -> (&str, Option<&str>) {
+    if let Some((prefix, last)) = path.rsplit_once('/')
+        && let Some(name) = last.strip_prefix('*')
+    {
+        return (if prefix.is_empty() { "/" } else { prefix }, Some(name));
+    }
+
+    (path, None)
+}
+
+/// Registers a route under every variant of its path
+fn insert_path_variants(
+    router: &GlobalRouter,
+    method: &str,
+    path: &str,
+    wildcard: bool,
+    strategy: ResponseStrategy,
+    schema: Option<RouteSchema>,
+    limits: RouteLimits,
+) -> napi::Result<()> {
+    let (path, catch_all) = split_catch_all(path);
 
-    converted_parts.join("/")
+    for converted_path in convert_path_to_matchit_format(path) {
+        let compiled = CompiledRoute {
+            method: method.into(),
+            segments: path_segments(&converted_path),
+            path: converted_path.into_boxed_str(),
+            wildcard: wildcard || catch_all.is_some(),
+            rest_param: catch_all.filter(|name| !name.is_empty()).map(Into::into),
+            strategy: strategy.clone(),
+            schema: schema.clone(),
+            limits,
+        };
+
+        router.insert(method, compiled).map_err(Error::from_reason)?;
+    }
+
+    Ok(())
+}
+
+fn path_segments(path: &str) -> Box<[Box<str>]> {
+    path.split('/').filter(|s| !s.is_empty()).map(|s| s.to_string().into_boxed_str()).collect()
 }
 
-pub fn insert_route(route: Route) -> napi::Result<()> {
-    let method_key: Box<str> = route.method.clone().into_boxed_str();
-    let converted_path = convert_path_to_matchit_format(&route.path);
+pub fn parse_route_schema(schema_json: &str) -> napi::Result<RouteSchema> {
+    let parsed: Value = from_str(schema_json)
+        .map_err(|e| Error::from_reason(format!("Invalid schema JSON: {e}")))?;
 
-    let segments: Vec<Box<str>> = converted_path
-        .split('/')
-        .filter(|s| !s.is_empty())
-        .map(|s| s.to_string().into_boxed_str())
-        .collect();
+    let definitions =
+        parsed.get("definitions").and_then(Value::as_object).cloned().unwrap_or_default();
 
+    let field = |key: &str| -> napi::Result<Option<SchemaType>> {
+        let Some(value) = parsed.get(key) else {
+            return Ok(None);
+        };
+        let resolved = resolve_refs(value, &definitions).map_err(Error::from_reason)?;
+        from_value(resolved)
+            .map(Some)
+            .map_err(|e| Error::from_reason(format!("Invalid {key} schema: {e}")))
+    };
+
+    let mut response = HashMap::default();
+    if let Some(statuses) = parsed.get("response").and_then(Value::as_object) {
+        for (status, value) in statuses {
+            let code = status
+                .parse::<u16>()
+                .map_err(|_| Error::from_reason(format!("Invalid response status \"{status}\"")))?;
+            let resolved = resolve_refs(value, &definitions).map_err(Error::from_reason)?;
+            let schema = from_value(resolved).map_err(|e| {
+                Error::from_reason(format!("Invalid {status} response schema: {e}"))
+            })?;
+            response.insert(code, schema);
+        }
+    }
+
+    Ok(RouteSchema {
+        params: field("params")?,
+        query: field("query")?,
+        body: field("body")?,
+        headers: field("headers")?,
+        cookie: field("cookie")?,
+        response,
+    })
+}
+
+pub fn insert_route(router: &GlobalRouter, route: Route) -> napi::Result<()> {
     let strategy = if let Some(static_json) = route.static_response {
         let static_info: Value = from_str(&static_json)
             .map_err(|e| Error::from_reason(format!("Invalid static response: {e}")))?;
@@ -150,28 +285,49 @@ pub fn insert_route(route: Route) -> napi::Result<()> {
         ResponseStrategy::Dynamic(Arc::new(tsfn))
     };
 
-    let schema = if let Some(schema_json) = route.schema {
-        let parsed: Value = from_str(&schema_json)
-            .map_err(|e| Error::from_reason(format!("Invalid schema JSON: {e}")))?;
-
-        Some(RouteSchema {
-            params: parsed.get("params").and_then(|v| from_value(v.clone()).ok()),
-            query: parsed.get("query").and_then(|v| from_value(v.clone()).ok()),
-            body: parsed.get("body").and_then(|v| from_value(v.clone()).ok()),
-            headers: parsed.get("headers").and_then(|v| from_value(v.clone()).ok()),
-        })
-    } else {
-        None
-    };
+    let schema = route.schema.as_deref().map(parse_route_schema).transpose()?;
 
-    let compiled = CompiledRoute {
-        method: method_key.clone(),
-        path: converted_path.into_boxed_str(),
-        segments: segments.into_boxed_slice(),
+    insert_path_variants(
+        router,
+        &route.method,
+        &route.path,
+        route.wildcard.unwrap_or(false),
         strategy,
         schema,
-    };
+        RouteLimits { max_request_size: route.max_request_size, timeout: route.timeout },
+    )
+}
+
+pub fn insert_websocket_route(router: &GlobalRouter, route: WebSocketRoute) -> napi::Result<()> {
+    let tsfn = route.handler.build_threadsafe_function().build()?;
+    let schema = route.schema.as_deref().map(parse_route_schema).transpose()?;
+
+    insert_path_variants(
+        router,
+        "GET",
+        &route.path,
+        false,
+        ResponseStrategy::WebSocket(Arc::new(tsfn)),
+        schema,
+        RouteLimits::default(),
+    )
+}
+
+pub fn set_not_found_route(
+    router: &GlobalRouter,
+    handler: Function<'static, ContextObject, ()>,
+) -> napi::Result<()> {
+    let tsfn = handler.build_threadsafe_function().build()?;
 
-    ROUTER.insert(&route.method, compiled).map_err(Error::from_reason)?;
+    router.set_not_found(CompiledRoute {
+        method: ANY_METHOD.into(),
+        path: "".into(),
+        segments: Box::new([]),
+        wildcard: false,
+        rest_param: None,
+        strategy: ResponseStrategy::Dynamic(Arc::new(tsfn)),
+        schema: None,
+        limits: RouteLimits::default(),
+    });
     Ok(())
 }
@@ -0,0 +1,60 @@
+#[cfg(test)]
+mod tests {
+    use super::super::routes::{
+        convert_path_to_matchit_format, parse_route_schema, split_catch_all,
+    };
+
+    #[test]
+    fn test_params_converted() {
+        assert_eq!(convert_path_to_matchit_format("/users/:id"), vec!["/users/{id}"]);
+        assert_eq!(convert_path_to_matchit_format("/plain"), vec!["/plain"]);
+    }
+
+    #[test]
+    fn test_optional_param_registers_both_paths() {
+        assert_eq!(convert_path_to_matchit_format("/users/:id?"), vec!["/users", "/users/{id}"]);
+        assert_eq!(convert_path_to_matchit_format("/:id?"), vec!["/", "/{id}"]);
+    }
+
+    #[test]
+    fn test_consecutive_optional_params() {
+        assert_eq!(
+            convert_path_to_matchit_format("/a/:x/:y?/:z?"),
+            vec!["/a/{x}", "/a/{x}/{y}", "/a/{x}/{y}/{z}"]
+        );
+    }
+
+    #[test]
+    fn test_mid_path_optional_param() {
+        assert_eq!(convert_path_to_matchit_format("/a/:b?/c"), vec!["/a/c", "/a/{b}/c"]);
+        assert_eq!(
+            convert_path_to_matchit_format("/a/:b?/c/:d?"),
+            vec!["/a/c", "/a/c/{d}", "/a/{b}/c", "/a/{b}/c/{d}"]
+        );
+    }
+
+    #[test]
+    fn test_catch_all_split() {
+        assert_eq!(split_catch_all("/files/*"), ("/files", Some("")));
+        assert_eq!(split_catch_all("/files/*rest"), ("/files", Some("rest")));
+        assert_eq!(split_catch_all("/*"), ("/", Some("")));
+        assert_eq!(split_catch_all("/files/:name"), ("/files/:name", None));
+    }
+
+    #[test]
+    fn test_response_schemas_parsed_by_status() {
+        let schema =
+            parse_route_schema(r#"{"response":{"201":{"type":"boolean","optional":false}}}"#)
+                .unwrap();
+        assert!(schema.response.contains_key(&201));
+    }
+
+    #[test]
+    fn test_invalid_response_schema_rejected() {
+        assert!(parse_route_schema(r#"{"response":{"200":{"type":"nope"}}}"#).is_err());
+        assert!(
+            parse_route_schema(r#"{"response":{"ok":{"type":"boolean","optional":false}}}"#)
+                .is_err()
+        );
+    }
+}
@@ -61,3 +61,82 @@ pub fn parse_headers(
 
     validate_value(&Value::Object(obj), schema, "headers")
 }
+
+pub fn parse_cookies(
+    cookies: &HashMap<String, String>,
+    schema: &SchemaType,
+) -> Result<Value, ValidationError> {
+    let mut obj = Map::new();
+    for (key, value) in cookies {
+        obj.insert(key.clone(), Value::String(value.clone()));
+    }
+
+    validate_value(&Value::Object(obj), schema, "cookie")
+}
+
+/// Validate a response body sent with a declared status. Bodies that are not
+/// JSON are checked as plain strings
+pub fn parse_response(
+    body: &[u8],
+    is_json: bool,
+    schema: &SchemaType,
+) -> Result<Value, ValidationError> {
+    let body_value = if body.is_empty() {
+        Value::Null
+    } else if is_json {
+        from_slice(body).map_err(|_| ValidationError::new("response", "Invalid JSON"))?
+    } else {
+        Value::String(String::from_utf8_lossy(body).into_owned())
+    };
+
+    validate_value(&body_value, schema, "response")
+}
+
+/// Replace `{ "type": "ref", "name": ... }` nodes of a serialized schema with the
+/// matching entry of `definitions` (models shared by several routes)
+pub fn resolve_refs(schema: &Value, definitions: &Map<String, Value>) -> Result<Value, String> {
+    resolve_refs_inner(schema, definitions, &mut Vec::new())
+}
+
+/// `resolving` holds the models being expanded on the current path, so a model
+/// that (directly or indirectly) references itself is reported instead of
+/// recursing forever
+fn resolve_refs_inner<'a>(
+    schema: &Value,
+    definitions: &'a Map<String, Value>,
+    resolving: &mut Vec<&'a str>,
+) -> Result<Value, String> {
+    match schema {
+        Value::Object(obj) => {
+            if obj.get("type").and_then(Value::as_str) == Some("ref") {
+                let name = obj.get("name").and_then(Value::as_str).unwrap_or_default();
+                let (name, definition) = definitions
+                    .get_key_value(name)
+                    .ok_or_else(|| format!("Unknown model '{name}'"))?;
+
+                if resolving.contains(&name.as_str()) {
+                    return Err(format!("Circular reference to model '{name}'"));
+                }
+
+                resolving.push(name);
+                let resolved = resolve_refs_inner(definition, definitions, resolving);
+                resolving.pop();
+
+                return resolved;
+            }
+
+            let mut resolved = Map::with_capacity(obj.len());
+            for (key, value) in obj {
+                resolved.insert(key.clone(), resolve_refs_inner(value, definitions, resolving)?);
+            }
+
+            Ok(Value::Object(resolved))
+        }
+        Value::Array(items) => items
+            .iter()
+            .map(|item| resolve_refs_inner(item, definitions, resolving))
+            .collect::<Result<Vec<_>, _>>()
+            .map(Value::Array),
+        _ => Ok(schema.clone()),
+    }
+}
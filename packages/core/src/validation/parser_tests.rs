@@ -180,4 +180,113 @@ mod tests {
         let result = parse_params(&params, &schema);
         assert!(result.is_err());
     }
+
+    #[test]
+    fn test_parse_cookies() {
+        let mut shape = HashMap::new();
+        shape.insert(
+            "session".to_string(),
+            SchemaType::String {
+                optional: false,
+                default: None,
+                constraints: vec![StringConstraint::Uuid],
+            },
+        );
+
+        let schema = SchemaType::Object { optional: false, default: None, shape };
+
+        let mut cookies = HashMap::new();
+        assert!(parse_cookies(&cookies, &schema).is_err());
+
+        cookies.insert("session".to_string(), "123e4567-e89b-12d3-a456-426614174000".to_string());
+        assert!(parse_cookies(&cookies, &schema).is_ok());
+
+        cookies.insert("session".to_string(), "not-a-uuid".to_string());
+        assert!(parse_cookies(&cookies, &schema).is_err());
+    }
+
+    #[test]
+    fn test_parse_response_json() {
+        let mut shape = HashMap::new();
+        shape.insert(
+            "id".to_string(),
+            SchemaType::Number { optional: false, default: None, constraints: vec![] },
+        );
+
+        let schema = SchemaType::Object { optional: false, default: None, shape };
+
+        assert!(parse_response(br#"{"id":1}"#, true, &schema).is_ok());
+        assert!(parse_response(br#"{"id":"one"}"#, true, &schema).is_err());
+        assert!(parse_response(b"{", true, &schema).is_err());
+    }
+
+    #[test]
+    fn test_parse_response_text() {
+        let schema = SchemaType::String {
+            optional: false,
+            default: None,
+            constraints: vec![StringConstraint::Min { value: 3 }],
+        };
+
+        assert!(parse_response(b"123", false, &schema).is_ok());
+        assert!(parse_response(b"ok", false, &schema).is_err());
+        assert!(parse_response(b"", false, &schema).is_err());
+    }
+
+    #[test]
+    fn test_resolve_refs() {
+        let definitions = json!({
+            "User": {
+                "type": "object",
+                "optional": false,
+                "default": null,
+                "shape": {
+                    "name": { "type": "string", "optional": false, "default": null, "constraints": [] }
+                }
+            }
+        });
+        let definitions = definitions.as_object().unwrap();
+
+        let schema = json!({
+            "type": "array",
+            "optional": false,
+            "default": null,
+            "constraints": [],
+            "item": { "type": "ref", "name": "User" }
+        });
+
+        let resolved = resolve_refs(&schema, definitions).unwrap();
+        assert_eq!(resolved["item"], definitions["User"]);
+
+        let schema: SchemaType = serde_json::from_value(resolved).unwrap();
+        assert!(matches!(schema, SchemaType::Array { .. }));
+    }
+
+    #[test]
+    fn test_resolve_refs_unknown_model() {
+        let definitions = serde_json::Map::new();
+        let schema = json!({ "type": "ref", "name": "Missing" });
+
+        assert!(resolve_refs(&schema, &definitions).is_err());
+    }
+
+    #[test]
+    fn test_resolve_refs_circular_model() {
+        let definitions = json!({
+            "Node": {
+                "type": "object",
+                "optional": false,
+                "default": null,
+                "shape": {
+                    "next": { "type": "ref", "name": "Next" }
+                }
+            },
+            "Next": { "type": "ref", "name": "Node" }
+        });
+        let definitions = definitions.as_object().unwrap();
+        let schema = json!({ "type": "ref", "name": "Node" });
+
+        let error = resolve_refs(&schema, definitions).unwrap_err();
+        assert!(error.contains("Circular reference"));
+    }
 }
@@ -151,6 +151,105 @@ export class ClientError extends Error {
   }
 }
 
+// ============================================================================
+// WebSocket Subscription
+// ============================================================================
+
+/**
+ * Parse a WebSocket message, keeping text that is not JSON as is
+ */
+const parseMessage = (data: unknown): unknown => {
+  if (typeof data !== "string") return data;
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * WebSocket connection to a `.ws()` route
+ */
+export class ClientSubscription implements Client.Subscription {
+  readonly ws: WebSocket;
+
+  constructor(url: string, WebSocketImpl: typeof WebSocket) {
+    this.ws = new WebSocketImpl(url);
+  }
+
+  send(data: unknown): this {
+    const payload =
+      typeof data === "object" &&
+      data !== null &&
+      !(data instanceof Blob) &&
+      !(data instanceof ArrayBuffer) &&
+      !ArrayBuffer.isView(data)
+        ? JSON.stringify(data)
+        : (data as string);
+
+    if (this.ws.readyState === this.ws.CONNECTING) {
+      this.ws.addEventListener("open", () => this.ws.send(payload), {
+        once: true,
+      });
+    } else {
+      this.ws.send(payload);
+    }
+
+    return this;
+  }
+
+  subscribe(
+    listener: (message: Client.SubscriptionMessage<unknown>) => void,
+  ): this {
+    this.ws.addEventListener("message", (event) => {
+      listener({ data: parseMessage(event.data), event });
+    });
+    return this;
+  }
+
+  on<Type extends keyof WebSocketEventMap>(
+    type: Type,
+    listener: (event: WebSocketEventMap[Type]) => void,
+  ): this {
+    this.ws.addEventListener(type, listener);
+    return this;
+  }
+
+  close(code?: number, reason?: string): this {
+    this.ws.close(code, reason);
+    return this;
+  }
+}
+
+/**
+ * Create the caller opening a WebSocket to a route
+ */
+function createSubscriber(
+  domain: string,
+  config: Client.Config,
+  paths: string[],
+) {
+  return (options?: { query?: unknown }) => {
+    const WebSocketImpl = config.WebSocket ?? globalThis.WebSocket;
+    if (!WebSocketImpl) {
+      throw new Error(
+        "WebSocket is not available, pass an implementation in the client config",
+      );
+    }
+
+    // http(s):// becomes ws(s)://
+    let url = `${domain.replace(/^http/, "ws")}/${paths.join("/")}`;
+    if (options?.query) {
+      url += buildQueryString(
+        options.query as Record<string, string | string[]>,
+      );
+    }
+
+    return new ClientSubscription(url, WebSocketImpl);
+  };
+}
+
 // ============================================================================
 // Proxy Creator
 // ============================================================================
@@ -298,6 +397,10 @@ function createProxy(
         return createMethodCaller(domain, config, paths, prop);
       }
 
+      if (prop === "subscribe") {
+        return createSubscriber(domain, config, paths);
+      }
+
       // Handle 'index' specially (for root paths)
       if (prop === "index") {
         return createProxy(domain, config, paths);
@@ -84,6 +84,11 @@ export namespace Client {
      * Base fetch options
      */
     fetchOptions?: Omit<RequestInit, "method" | "body" | "headers">;
+
+    /**
+     * Custom WebSocket implementation, used by `subscribe()`
+     */
+    WebSocket?: typeof globalThis.WebSocket;
   }
 
   /**
@@ -128,6 +133,51 @@ export namespace Client {
     | SuccessResult<ExtractSuccessResponse<Res>>
     | ErrorResult<ExtractErrorResponse<Res>>;
 
+  // ==========================================================================
+  // WebSocket Types
+  // ==========================================================================
+
+  /**
+   * Message received on a subscription
+   */
+  export interface SubscriptionMessage<Data> {
+    /**
+     * Message data, parsed when it is JSON
+     */
+    data: Data;
+    event: MessageEvent;
+  }
+
+  /**
+   * WebSocket connection opened with `subscribe()`
+   */
+  export interface Subscription<Send = unknown, Receive = unknown> {
+    /**
+     * Underlying WebSocket
+     */
+    ws: globalThis.WebSocket;
+
+    /**
+     * Send a message, objects as JSON; queued until the socket is open
+     */
+    send(data: Send): this;
+
+    /**
+     * Listen for messages
+     */
+    subscribe(listener: (message: SubscriptionMessage<Receive>) => void): this;
+
+    /**
+     * Listen for a WebSocket event
+     */
+    on<Type extends keyof WebSocketEventMap>(
+      type: Type,
+      listener: (event: WebSocketEventMap[Type]) => void,
+    ): this;
+
+    close(code?: number, reason?: string): this;
+  }
+
   // ==========================================================================
   // Route Method Types
   // ==========================================================================
@@ -165,6 +215,31 @@ export namespace Client {
           }>,
         ) => Promise<Result<Route["response"]>>;
 
+  /**
+   * Create a method signature for WebSocket routes
+   */
+  type CreateSubscribeMethod<Route extends WebSocketRouteDefinition> = (
+    options?: Prettify<{
+      query?: Route["query"];
+    }>,
+  ) => Subscription<
+    unknown extends Route["body"]
+      ? string | ArrayBufferLike | Blob | ArrayBufferView
+      : Route["body"],
+    Route["response"] extends { 200: infer Data } ? Data : unknown
+  >;
+
+  /**
+   * WebSocket route definition structure
+   */
+  interface WebSocketRouteDefinition {
+    body: unknown;
+    params: unknown;
+    query: unknown;
+    headers: unknown;
+    response: unknown;
+  }
+
   /**
    * Route definition structure
    */
@@ -210,9 +285,13 @@ export namespace Client {
             : never
         : Route[K] extends RouteDefinition
           ? never
-          : Route[K] extends Record<string, any>
-            ? Sign<Route[K]> & ParamHandler<Route[K]>
-            : never;
+          : Route[K] extends WebSocketRouteDefinition
+            ? K extends "subscribe"
+              ? CreateSubscribeMethod<Route[K]>
+              : never
+            : Route[K] extends Record<string, any>
+              ? Sign<Route[K]> & ParamHandler<Route[K]>
+              : never;
   };
 
   // ==========================================================================
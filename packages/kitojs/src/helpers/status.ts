@@ -0,0 +1,42 @@
+/**
+ * A handler result sent with an explicit status code.
+ * Created with {@link status}; the code and body are recorded in the
+ * route's response types.
+ *
+ * @template Code - HTTP status code
+ * @template Body - Response body type
+ */
+export class StatusResponse<Code extends number = number, Body = unknown> {
+  constructor(
+    readonly code: Code,
+    readonly response: Body,
+  ) {}
+}
+
+/**
+ * Returns a response with a status code from a Kito handler.
+ * Each code returned this way appears in the route's response map
+ * (and in the client's error types).
+ *
+ * @param code - HTTP status code
+ * @param body - Response body
+ * @returns A status response to return from the handler
+ *
+ * @example
+ * ```typescript
+ * import { kito, status } from 'kitojs';
+ *
+ * const app = kito().get('/users/:id', ({ params }) => {
+ *   const user = users.get(params.id);
+ *   if (!user) return status(404, { message: 'User not found' });
+ *
+ *   return user; // { 200: User; 404: { message: string } }
+ * });
+ * ```
+ */
+export function status<const Code extends number, Body = undefined>(
+  code: Code,
+  body?: Body,
+): StatusResponse<Code, Body> {
+  return new StatusResponse(code, body as Body);
+}
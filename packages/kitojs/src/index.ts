@@ -66,6 +66,7 @@ export * from "./schemas/builders";
 
 export * from "./helpers/schema";
 export * from "./helpers/middleware";
+export * from "./helpers/status";
 
 export * from "./server/server";
 export * from "./server/kito";
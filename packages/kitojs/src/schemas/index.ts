@@ -8,3 +8,4 @@ export * from "./primitives/array";
 export * from "./primitives/object";
 export * from "./primitives/literal";
 export * from "./primitives/union";
+export * from "./primitives/ref";
@@ -0,0 +1,20 @@
+import type { SchemaType } from "@frankwww/kitopia-types";
+
+/**
+ * Reference to a named model, resolved by the core from the route's
+ * `definitions`
+ */
+export class RefSchemaImpl implements SchemaType {
+  _type!: unknown;
+  _optional = false;
+  _default: unknown = undefined;
+
+  constructor(readonly name: string) {}
+
+  _serialize() {
+    return {
+      type: "ref",
+      name: this.name,
+    };
+  }
+}
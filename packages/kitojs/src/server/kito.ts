@@ -24,9 +24,12 @@ import type {
   EmptyEphemeral,
   VolatileType,
   EmptyVolatile,
+  MetadataBase,
+  EmptyMetadata,
   RouteBase,
   HTTPMethod,
   InputSchema,
+  RouteLimits,
   Context,
   Handler,
   InlineHandler,
@@ -35,9 +38,47 @@ import type {
   LifeCycleType,
   SchemaType,
   InferType,
+  ErrorConstructorLike,
+  ErrorHandler,
+  ErrorResponseSchema,
+  RouteResponse,
+  HookOptions,
+  LifeCycleStore,
+  PreHandler,
+  TransformHandler,
+  OptionalHandler,
+  AfterHandler,
+  AfterResponseHandler,
+  GuardSchema,
+  GuardHook,
+  Macro,
+  MacroOptions,
+  KitoWS,
+  WebSocketHandlers,
+  WebSocketHook,
+  WebSocketSchema,
 } from "../types/base";
 
-import type { CreateRoute, MergeRoutes } from "../types/routes";
+import type {
+  KitoContext,
+  KitoWebSocket,
+  SchemaDefinition,
+} from "@frankwww/kitopia-types";
+
+import type {
+  AddPrefix,
+  CreateRoute,
+  CreateWebSocketRoute,
+  InternalRoute,
+  MergeRoutes,
+  MountTarget,
+} from "../types/routes";
+
+import { KitoServer } from "./server";
+import { StatusResponse, status } from "../helpers/status";
+import { ArraySchemaImpl } from "../schemas/primitives/array";
+import { ObjectSchemaImpl } from "../schemas/primitives/object";
+import { RefSchemaImpl } from "../schemas/primitives/ref";
 
 // Inline ServerOptions to avoid circular dependency during type checking
 interface ServerOptions {
@@ -45,60 +86,388 @@ interface ServerOptions {
   host?: string;
   unixSocket?: string;
   trustProxy?: boolean;
+  /**
+   * Largest request body in bytes, larger ones are answered with 413
+   * (default: 10 MiB)
+   */
   maxRequestSize?: number;
+  /**
+   * Milliseconds to read a request and start its response. A slow body is
+   * answered with 408 and a slow handler with 504
+   */
   timeout?: number;
   reusePort?: boolean;
+  /**
+   * How a response that does not match its declared schema is handled:
+   * `"strict"` answers 500, `"warn"` logs the violation and sends it anyway
+   */
+  responseValidation?: "strict" | "warn";
+  /**
+   * Answer HEAD requests from the matching GET route, without the body
+   * (default: true)
+   */
+  autoHead?: boolean;
+  /**
+   * Answer OPTIONS requests with the allowed methods in `Allow`
+   * (default: true)
+   */
+  autoOptions?: boolean;
+  /**
+   * Close the server gracefully on SIGTERM and SIGINT, then re-raise the
+   * signal. A second signal while closing stops the process right away
+   * (default: false)
+   */
+  handleSignals?: boolean;
+}
+
+interface CloseOptions {
+  /**
+   * Milliseconds to wait for open connections to finish before they are
+   * dropped (default: 10000)
+   */
+  timeout?: number;
 }
 
-// Stub type for KitoServer - the actual class is in ./server.ts
-// This allows type checking without the full dependency chain
-interface KitoServerStub<TExtensions = {}> {
-  get(path: string, handler: unknown): this;
-  get(path: string, middlewares: unknown[], handler: unknown): this;
-  post(path: string, handler: unknown): this;
-  post(path: string, middlewares: unknown[], handler: unknown): this;
-  put(path: string, handler: unknown): this;
-  put(path: string, middlewares: unknown[], handler: unknown): this;
-  delete(path: string, handler: unknown): this;
-  delete(path: string, middlewares: unknown[], handler: unknown): this;
-  patch(path: string, handler: unknown): this;
-  patch(path: string, middlewares: unknown[], handler: unknown): this;
-  listen(port?: number, callback?: () => void): Promise<ServerOptions>;
-  listen(callback?: () => void): Promise<ServerOptions>;
-  close(): void;
+// Schema keys whose object schemas are merged field by field
+const MERGED_SCHEMA_KEYS = ["headers", "query", "cookie"] as const;
+
+/**
+ * Merge a route's schema over the schema of its guard. Object schemas of
+ * headers, query and cookie are merged field by field, so a route declaring
+ * its own headers still validates the ones its guard requires
+ */
+function mergeInputSchemas(
+  guard: InputSchema,
+  route: InputSchema = {},
+): InputSchema {
+  const merged: InputSchema = { ...guard, ...route };
+
+  for (const key of MERGED_SCHEMA_KEYS) {
+    const guardSchema = guard[key];
+    const routeSchema = route[key];
+
+    if (
+      guardSchema instanceof ObjectSchemaImpl &&
+      routeSchema instanceof ObjectSchemaImpl
+    ) {
+      merged[key] = Object.assign(
+        Object.create(Object.getPrototypeOf(routeSchema)),
+        routeSchema,
+        { shape: { ...guardSchema.shape, ...routeSchema.shape } },
+      );
+    }
+  }
+
+  return merged;
 }
 
-// Dynamic import type for actual KitoServer
-type KitoServer<T = {}> = KitoServerStub<T>;
-
-// Factory to create KitoServer - will be replaced with actual import at runtime
-function createKitoServer(options?: ServerOptions): KitoServer {
-  // At runtime, this will be the actual KitoServer
-  // For type checking, we use the stub
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const { KitoServer } = require("./server");
-    return new KitoServer(options);
-  } catch {
-    // Fallback stub that returns itself for method chaining
-    const stub: KitoServer = {
-      get: () => stub,
-      post: () => stub,
-      put: () => stub,
-      delete: () => stub,
-      patch: () => stub,
-      listen: () => Promise.resolve({}),
-      close: () => {},
-    };
-    return stub;
+// Options of a `.ws()` route that are socket event handlers
+const WEBSOCKET_EVENTS = [
+  "open",
+  "message",
+  "close",
+  "drain",
+  "ping",
+  "pong",
+] as const satisfies ReadonlyArray<keyof WebSocketHandlers>;
+
+// ============================================================================
+// Lifecycle Helpers
+// ============================================================================
+
+const LIFECYCLE_STAGES = [
+  "request",
+  "derive",
+  "transform",
+  "resolve",
+  "beforeHandle",
+  "afterHandle",
+  "mapResponse",
+  "afterResponse",
+  "error",
+] as const satisfies ReadonlyArray<keyof LifeCycleStore>;
+
+// Stages that can be set through local hooks (guard options and macros)
+const LOCAL_HOOK_STAGES = [
+  "transform",
+  "beforeHandle",
+  "afterHandle",
+  "mapResponse",
+  "afterResponse",
+  "error",
+] as const satisfies ReadonlyArray<keyof LifeCycleStore>;
+
+/**
+ * Split an options object into local hooks (pushed to `hooks`) and the
+ * remaining input schema
+ */
+function splitLocalHooks(
+  options: object,
+  hooks: LifeCycleStore,
+): Record<string, unknown> {
+  const schema: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined) continue;
+    if (LOCAL_HOOK_STAGES.includes(key as (typeof LOCAL_HOOK_STAGES)[number])) {
+      for (const fn of Array.isArray(value) ? value : [value]) {
+        hooks[key as keyof LifeCycleStore].push({ fn, scope: "local" });
+      }
+    } else {
+      schema[key] = value;
+    }
+  }
+
+  return schema;
+}
+
+function createLifeCycleStore(): LifeCycleStore {
+  return {
+    request: [],
+    derive: [],
+    transform: [],
+    resolve: [],
+    beforeHandle: [],
+    afterHandle: [],
+    mapResponse: [],
+    afterResponse: [],
+    error: [],
+  };
+}
+
+/**
+ * Concatenate two hook stores stage by stage, `a` running first
+ */
+function mergeLifeCycle(a: LifeCycleStore, b: LifeCycleStore): LifeCycleStore {
+  const merged = createLifeCycleStore();
+  for (const stage of LIFECYCLE_STAGES) {
+    merged[stage] = [...a[stage], ...b[stage]];
+  }
+  return merged;
+}
+
+/**
+ * Hooks of a store that reach the routes of plugins and groups, local hooks
+ * stay with the routes of the instance that added them
+ */
+function inheritedLifeCycle(store: LifeCycleStore): LifeCycleStore {
+  const inherited = createLifeCycleStore();
+  for (const stage of LIFECYCLE_STAGES) {
+    inherited[stage] = store[stage].filter((hook) => hook.scope !== "local");
+  }
+  return inherited;
+}
+
+// ============================================================================
+// Context Helpers
+// ============================================================================
+
+/**
+ * Define a property read on first access; assigning it (from transform
+ * hooks or derive) replaces the value
+ */
+function defineLazy(ctx: object, key: string, read: () => unknown): void {
+  const assign = (value: unknown) =>
+    Object.defineProperty(ctx, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+
+  Object.defineProperty(ctx, key, {
+    get() {
+      const value = read();
+      assign(value);
+      return value;
+    },
+    set: assign,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Context of a request at runtime: the server's context with the Kito
+ * fields, decorators and hook results assigned onto it
+ */
+type RequestContext = KitoContext &
+  Context & {
+    code?: string;
+    error?: Error;
+    response?: unknown;
+  };
+
+/**
+ * Hook or handler as registered, whatever context it was typed with
+ */
+type AnyHandler = (ctx: never) => unknown;
+
+/**
+ * Hook or handler as called with the runtime context
+ */
+type ContextFunction = (ctx: RequestContext) => unknown;
+
+/**
+ * WebSocket event handler, called with the socket and the event's arguments
+ */
+type SocketEventHandler<Socket = KitoWebSocket> = (
+  socket: Socket,
+  ...args: unknown[]
+) => MaybePromise<void>;
+
+/**
+ * Expose the request on the Kito context, backed by the server's
+ * request builder so that nothing is read from the core until used
+ */
+function defineRequestContext(ctx: RequestContext, route: string): void {
+  const { req } = ctx;
+
+  defineLazy(ctx, "request", () => req.toRequest());
+  defineLazy(ctx, "body", () => req.body);
+  defineLazy(ctx, "query", () => req.query);
+  defineLazy(ctx, "params", () => req.params);
+  defineLazy(ctx, "headers", () => req.headers);
+  defineLazy(ctx, "cookie", () => req.cookies);
+  defineLazy(ctx, "path", () => req.pathname);
+  ctx.route = route;
+  ctx.status = status;
+}
+
+/**
+ * Answers requests that match no route when request hooks run for them but
+ * no onNotFound handler is set, like the server does on its own
+ */
+function defaultNotFound({ req, set }: RequestContext): unknown {
+  return set.status === 405
+    ? {
+        error: "Method Not Allowed",
+        message: `${req.method} is not allowed on ${req.pathname}`,
+      }
+    : { error: "Not Found", message: `Cannot ${req.method} ${req.pathname}` };
+}
+
+/**
+ * Read a header from `set.headers`, whatever the case of its name
+ */
+function findHeader(
+  headers: Record<string, string | number>,
+  name: string,
+): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) return String(value);
+  }
+}
+
+/**
+ * Async generators and web streams (which are async iterable in Node)
+ */
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] ===
+      "function"
+  );
+}
+
+// ============================================================================
+// Model Helpers
+// ============================================================================
+
+function isSchemaType(value: unknown): value is SchemaType {
+  return typeof value === "object" && value !== null && "_optional" in value;
+}
+
+/**
+ * Replace model names (`'User'`, `'User[]'`) with references, collecting
+ * each referenced model once under `definitions`
+ */
+function resolveModels(
+  schema: InputSchema,
+  models: Record<string, SchemaType>,
+): SchemaDefinition {
+  const definitions: Record<string, SchemaType> = {};
+
+  const resolve = (value: unknown): unknown => {
+    if (typeof value !== "string") return value;
+
+    const isArray = value.endsWith("[]");
+    const name = isArray ? value.slice(0, -2) : value;
+    if (!(name in models)) {
+      throw new Error(`Unknown model "${name}"`);
+    }
+
+    definitions[name] = models[name];
+    const ref = new RefSchemaImpl(name);
+    return isArray ? new ArraySchemaImpl(ref) : ref;
+  };
+
+  const resolved: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "response") {
+      // A single response schema describes the 200 response
+      const statuses =
+        typeof value === "object" && !isSchemaType(value)
+          ? value
+          : { 200: value };
+      resolved[key] = Object.fromEntries(
+        Object.entries(statuses).map(([status, item]) => [
+          status,
+          resolve(item),
+        ]),
+      );
+    } else {
+      resolved[key] = resolve(value);
+    }
   }
+
+  if (Object.keys(definitions).length > 0) {
+    resolved.definitions = definitions;
+  }
+
+  return resolved as SchemaDefinition;
 }
 
 // ============================================================================
 // Type Aliases for Cleaner Signatures
 // ============================================================================
 
-type AnyKito = Kito<any, any, any, any, any, any>;
+type AnyKito = Kito<any, any, any, any, any, any, any>;
+
+/**
+ * Schema seen by a route: its own schema over the inherited guard schemas
+ */
+type InheritedRouteSchema<
+  Schema extends InputSchema,
+  Path extends string,
+  Definitions extends DefinitionBase,
+  Ephemeral extends EphemeralType,
+  Volatile extends VolatileType,
+> = MergeSchema<
+  MergeSchema<
+    Volatile["schema"],
+    MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+  >,
+  UnwrapInputSchema<Schema, Path, Definitions["schemas"]>,
+  Path
+>;
+
+/**
+ * Options accepted by route methods: an input schema and macro options
+ */
+type RouteOptions<
+  Definitions extends DefinitionBase,
+  Metadata extends MetadataBase,
+> = InputSchema<ModelName<Definitions>> &
+  RouteLimits &
+  MacroOptions<Metadata["macro"]>;
+
+/**
+ * Names of the models registered via .model()
+ */
+type ModelName<Definitions extends DefinitionBase> =
+  keyof Definitions["schemas"] & string;
 
 // ============================================================================
 // Kito Configuration
@@ -153,6 +522,7 @@ export class Kito<
   const Routes extends RouteBase = {},
   const Ephemeral extends EphemeralType = EmptyEphemeral,
   const Volatile extends VolatileType = EmptyVolatile,
+  const Metadata extends MetadataBase = EmptyMetadata,
 > {
   // Type-level markers for inference
   readonly "~BasePath"!: BasePath;
@@ -161,21 +531,38 @@ export class Kito<
   readonly "~Routes"!: Routes;
   readonly "~Ephemeral"!: Ephemeral;
   readonly "~Volatile"!: Volatile;
+  readonly "~Metadata"!: Metadata;
 
   // Internal state
   private config: KitoConfig<BasePath>;
-  private internalServer: KitoServer<
-    Singleton["decorator"] & Singleton["derive"] & Singleton["resolve"]
-  >;
+  private server?: KitoServer;
 
   // Runtime singleton storage
   private singletonStore: Record<string, unknown> = {};
-  private deriveFunctions: Array<(ctx: unknown) => unknown> = [];
-  private resolveFunctions: Array<(ctx: unknown) => unknown> = [];
+  private decorators: Record<string, unknown> = {};
+  private models: Record<string, SchemaType> = {};
+  private macros: Record<string, (value: unknown) => object | undefined> = {};
+  private errorDefinitions: Record<string, ErrorConstructorLike> = {};
+  private lifecycle: LifeCycleStore = createLifeCycleStore();
+
+  // Routes (full paths) and names of applied plugins
+  // Routes are registered on the internal server when it starts listening
+  private routes: InternalRoute[] = [];
+  private registeredRoutes = 0;
+  private compiled = false;
+  private plugins = new Set<string>();
 
   constructor(config: KitoConfig<BasePath> = {}) {
     this.config = config as KitoConfig<BasePath>;
-    this.internalServer = createKitoServer(config.serve) as any;
+  }
+
+  /**
+   * Underlying server, created on first use so that plugins and groups
+   * never allocate one
+   */
+  private get internalServer(): KitoServer {
+    this.server ??= new KitoServer(this.config.serve);
+    return this.server;
   }
 
   // ==========================================================================
@@ -209,7 +596,8 @@ export class Kito<
     Definitions,
     Routes,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   > {
     this.singletonStore[key] = value;
     return this as any;
@@ -242,12 +630,11 @@ export class Kito<
     Definitions,
     Routes,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   > {
     // Store decorator for runtime
-    (this.internalServer as any).decorators =
-      (this.internalServer as any).decorators || {};
-    (this.internalServer as any).decorators[key] = value;
+    this.decorators[key] = value;
     return this as any;
   }
 
@@ -287,9 +674,10 @@ export class Kito<
     Definitions,
     Routes,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   > {
-    this.deriveFunctions.push(fn as any);
+    this.lifecycle.derive.push({ fn, scope: "global" });
     return this as any;
   }
 
@@ -331,195 +719,982 @@ export class Kito<
     Definitions,
     Routes,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   > {
-    this.resolveFunctions.push(fn as any);
+    this.lifecycle.resolve.push({ fn, scope: "global" });
     return this as any;
   }
 
   // ==========================================================================
-  // Route Registration
+  // Models
   // ==========================================================================
 
   /**
-   * Register a GET route
+   * Register named schemas that routes can reference by name
+   * (`'User'`, or `'User[]'` for an array of them)
    *
    * @example
    * ```typescript
-   * app.get('/users/:id', ({ params }) => {
-   *   return { id: params.id }; // params.id is typed as string!
-   * });
+   * const app = new Kito()
+   *   .model({
+   *     User: t.object({ name: t.str(), email: t.str().email() }),
+   *   })
+   *   .post('/users', { body: 'User', response: 'User[]' }, ({ body }) => {
+   *     return [body]; // body is typed as { name: string; email: string }
+   *   });
    * ```
    */
-  get<
-    const Path extends string,
-    const Schema extends InputSchema = {},
-    const Response = unknown,
-  >(
-    path: Path,
-    handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
-        >,
-        JoinPath<BasePath, Path>
-      >,
-      Singleton,
-      JoinPath<BasePath, Path>
-    >,
+  model<const Models extends Record<string, SchemaType>>(
+    models: Models,
   ): Kito<
     BasePath,
     Singleton,
-    Definitions,
-    MergeRoutes<
-      Routes,
-      CreateRoute<
-        JoinPath<BasePath, Path>,
-        "GET",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
-      >
-    >,
+    {
+      schemas: Prettify<Definitions["schemas"] & Models>;
+      error: Definitions["error"];
+    },
+    Routes,
     Ephemeral,
-    Volatile
-  >;
+    Volatile,
+    Metadata
+  > {
+    Object.assign(this.models, models);
+    return this as any;
+  }
+
+  // ==========================================================================
+  // Macros
+  // ==========================================================================
 
   /**
-   * Register a GET route with schema validation
+   * Register macros: route options that expand into hooks
+   * A route enables a macro by setting its name in the route options
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .macro({
+   *     auth: (roles: string[]) => ({
+   *       beforeHandle: ({ headers, set }) => {
+   *         if (!hasRole(headers.authorization, roles)) {
+   *           set.status = 403;
+   *           return { error: 'Forbidden' };
+   *         }
+   *       },
+   *     }),
+   *   })
+   *   .get('/admin', { auth: ['admin'] }, () => 'secret');
+   * ```
    */
-  get<const Path extends string, const Schema extends InputSchema>(
-    path: Path,
-    schema: Schema,
-    handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
-        >,
-        JoinPath<BasePath, Path>
-      >,
-      Singleton,
-      JoinPath<BasePath, Path>
-    >,
+  macro<const Macros extends Record<string, Macro<any, Singleton>>>(
+    macros: Macros,
   ): Kito<
     BasePath,
     Singleton,
     Definitions,
-    MergeRoutes<
-      Routes,
-      CreateRoute<
-        JoinPath<BasePath, Path>,
-        "GET",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
-      >
-    >,
+    Routes,
     Ephemeral,
-    Volatile
-  >;
+    Volatile,
+    {
+      schema: Metadata["schema"];
+      macro: Prettify<Metadata["macro"] & Macros>;
+      parser: Metadata["parser"];
+      response: Metadata["response"];
+    }
+  > {
+    Object.assign(this.macros, macros);
+    return this as any;
+  }
 
-  // Implementation
-  get(
-    path: string,
-    schemaOrHandler: InputSchema | Function,
-    handler?: Function,
-  ): any {
-    return this.addRoute("GET", path, schemaOrHandler, handler);
+  // ==========================================================================
+  // Lifecycle Hooks
+  // ==========================================================================
+
+  /**
+   * Run on every request, before derive and validation, requests that
+   * match no route included
+   * Returning a value skips the route and sends it as the response
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .onRequest(({ request, set }) => {
+   *     if (request.method === 'TRACE') {
+   *       set.status = 405;
+   *       return 'Method Not Allowed';
+   *     }
+   *   });
+   * ```
+   */
+  onRequest(fn: PreHandler<Singleton>): this;
+  onRequest(options: HookOptions, fn: PreHandler<Singleton>): this;
+  onRequest(optionsOrFn: HookOptions | AnyHandler, fn?: AnyHandler): this {
+    return this.addHook("request", optionsOrFn, fn);
   }
 
   /**
-   * Register a POST route
+   * Mutate the context after derive, before resolve and beforeHandle
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .onTransform((ctx) => {
+   *     ctx.query = { ...ctx.query, page: ctx.query.page ?? '1' };
+   *   });
+   * ```
    */
-  post<const Path extends string, const Schema extends InputSchema = {}>(
-    path: Path,
-    handler: InlineHandler<
+  onTransform(
+    fn: TransformHandler<
       MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
-        >,
-        JoinPath<BasePath, Path>
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
       >,
-      Singleton,
-      JoinPath<BasePath, Path>
+      Singleton
     >,
-  ): Kito<
-    BasePath,
-    Singleton,
-    Definitions,
-    MergeRoutes<
-      Routes,
-      CreateRoute<
-        JoinPath<BasePath, Path>,
-        "POST",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
-      >
+  ): this;
+  onTransform(
+    options: HookOptions,
+    fn: TransformHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
     >,
-    Ephemeral,
-    Volatile
-  >;
+  ): this;
+  onTransform(optionsOrFn: HookOptions | AnyHandler, fn?: AnyHandler): this {
+    return this.addHook("transform", optionsOrFn, fn);
+  }
 
-  post<const Path extends string, const Schema extends InputSchema>(
-    path: Path,
-    schema: Schema,
-    handler: InlineHandler<
+  /**
+   * Run before the route handler
+   * Returning a value skips the handler and sends it as the response
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .onBeforeHandle(({ headers, set }) => {
+   *     if (!headers.authorization) {
+   *       set.status = 401;
+   *       return { error: 'Unauthorized' };
+   *     }
+   *   });
+   * ```
+   */
+  onBeforeHandle(
+    fn: OptionalHandler<
       MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
-        >,
-        JoinPath<BasePath, Path>
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
       >,
-      Singleton,
-      JoinPath<BasePath, Path>
+      Singleton
     >,
-  ): Kito<
-    BasePath,
-    Singleton,
-    Definitions,
+  ): this;
+  onBeforeHandle(
+    options: HookOptions,
+    fn: OptionalHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  onBeforeHandle(optionsOrFn: HookOptions | AnyHandler, fn?: AnyHandler): this {
+    return this.addHook("beforeHandle", optionsOrFn, fn);
+  }
+
+  /**
+   * Run after the route handler
+   * Returning a value replaces the response
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .onAfterHandle(({ response }) => {
+   *     if (Array.isArray(response)) return { items: response };
+   *   });
+   * ```
+   */
+  onAfterHandle(
+    fn: AfterHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  onAfterHandle(
+    options: HookOptions,
+    fn: AfterHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  onAfterHandle(optionsOrFn: HookOptions | AnyHandler, fn?: AnyHandler): this {
+    return this.addHook("afterHandle", optionsOrFn, fn);
+  }
+
+  /**
+   * Map the final response value right before it is sent
+   * Returning a value replaces the response
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .mapResponse(({ response, set }) => {
+   *     set.headers['x-powered-by'] = 'kito';
+   *     return response;
+   *   });
+   * ```
+   */
+  mapResponse(
+    fn: AfterHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  mapResponse(
+    options: HookOptions,
+    fn: AfterHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  mapResponse(optionsOrFn: HookOptions | AnyHandler, fn?: AnyHandler): this {
+    return this.addHook("mapResponse", optionsOrFn, fn);
+  }
+
+  /**
+   * Run once the response has been sent (errors are logged, not sent)
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .onAfterResponse(({ path, set }) => {
+   *     console.log(path, set.status ?? 200);
+   *   });
+   * ```
+   */
+  onAfterResponse(
+    fn: AfterResponseHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  onAfterResponse(
+    options: HookOptions,
+    fn: AfterResponseHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this;
+  onAfterResponse(
+    optionsOrFn: HookOptions | AnyHandler,
+    fn?: AnyHandler,
+  ): this {
+    return this.addHook("afterResponse", optionsOrFn, fn);
+  }
+
+  /**
+   * Handle requests that match no route, answered with a 404 status unless
+   * the handler sets another one
+   * Request, derive and resolve hooks run before it, and its return value
+   * is sent like a route's
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .onNotFound(({ path }) => ({ message: `No route for ${path}` }));
+   * ```
+   */
+  onNotFound(
+    handler: InlineHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton
+    >,
+  ): this {
+    return this.registerRoute({
+      method: "ALL",
+      path: "",
+      handler,
+      // Hooks added so far, as for any route
+      hooks: mergeLifeCycle(this.lifecycle, createLifeCycleStore()),
+      notFound: true,
+    });
+  }
+
+  private addHook(
+    stage: keyof LifeCycleStore,
+    optionsOrFn: HookOptions | AnyHandler,
+    fn?: AnyHandler,
+  ): this {
+    if (typeof optionsOrFn === "function") {
+      this.lifecycle[stage].push({ fn: optionsOrFn, scope: "local" });
+    } else if (fn) {
+      this.lifecycle[stage].push({ fn, scope: optionsOrFn.as ?? "local" });
+    }
+    return this;
+  }
+
+  // ==========================================================================
+  // Error Handling
+  // ==========================================================================
+
+  /**
+   * Register custom error classes under a typed error code
+   *
+   * An error class may declare a literal `status` field, which is used as
+   * the response status and recorded in the routes' response types.
+   *
+   * @example
+   * ```typescript
+   * class NotFoundError extends Error {
+   *   readonly status = 404;
+   * }
+   *
+   * const app = new Kito()
+   *   .error({ NotFound: NotFoundError })
+   *   .onError(({ code, error }) => {
+   *     if (code === 'NotFound') return { message: error.message };
+   *   });
+   * ```
+   */
+  error<const Errors extends Record<string, ErrorConstructorLike>>(
+    errors: Errors,
+  ): Kito<
+    BasePath,
+    Singleton,
+    {
+      schemas: Definitions["schemas"];
+      error: Prettify<
+        Definitions["error"] & {
+          [K in keyof Errors]: InstanceType<Errors[K]>;
+        }
+      >;
+    },
+    Routes,
+    Ephemeral,
+    Volatile,
+    Metadata
+  > {
+    Object.assign(this.errorDefinitions, errors);
+    return this as any;
+  }
+
+  /**
+   * Handle errors thrown by derive, resolve or route handlers
+   * Returning a value sends it as the response
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .error({ NotFound: NotFoundError })
+   *   .onError(({ code, error, set }) => {
+   *     if (code === 'NotFound') {
+   *       set.status = 404;
+   *       return { message: error.message };
+   *     }
+   *   });
+   * ```
+   */
+  onError(
+    fn: ErrorHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton,
+      Definitions["error"]
+    >,
+  ): this;
+  onError(
+    options: HookOptions,
+    fn: ErrorHandler<
+      MergeSchema<
+        Volatile["schema"],
+        MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      >,
+      Singleton,
+      Definitions["error"]
+    >,
+  ): this;
+  onError(optionsOrFn: HookOptions | AnyHandler, fn?: AnyHandler): this {
+    return this.addHook("error", optionsOrFn, fn);
+  }
+
+  // ==========================================================================
+  // Route Registration
+  // ==========================================================================
+
+  /**
+   * Register a GET route
+   *
+   * @example
+   * ```typescript
+   * app.get('/users/:id', ({ params }) => {
+   *   return { id: params.id }; // params.id is typed as string!
+   * });
+   * ```
+   */
+  get<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "GET",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  /**
+   * Register a GET route with schema validation
+   */
+  get<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "GET",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  // Implementation
+  get(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("GET", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a POST route
+   */
+  post<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "POST",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  post<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "POST",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  post(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("POST", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a PUT route
+   */
+  put<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "PUT",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  put<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "PUT",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  put(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("PUT", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a DELETE route
+   */
+  delete<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "DELETE",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  delete<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
     MergeRoutes<
       Routes,
       CreateRoute<
         JoinPath<BasePath, Path>,
-        "POST",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
+        "DELETE",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
       >
     >,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   >;
 
-  post(
+  delete(
     path: string,
-    schemaOrHandler: InputSchema | Function,
-    handler?: Function,
-  ): any {
-    return this.addRoute("POST", path, schemaOrHandler, handler);
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("DELETE", path, schemaOrHandler, handler);
   }
 
   /**
-   * Register a PUT route
+   * Register a PATCH route
    */
-  put<const Path extends string, const Schema extends InputSchema = {}>(
+  patch<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
     path: Path,
     handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "PATCH",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
         >,
-        JoinPath<BasePath, Path>
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  patch<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
       >,
       Singleton,
-      JoinPath<BasePath, Path>
+      JoinPath<BasePath, Path>,
+      Return
     >,
   ): Kito<
     BasePath,
@@ -529,29 +1704,176 @@ export class Kito<
       Routes,
       CreateRoute<
         JoinPath<BasePath, Path>,
-        "PUT",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
+        "PATCH",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  patch(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("PATCH", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a HEAD route
+   */
+  head<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "HEAD",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
       >
     >,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   >;
 
-  put<const Path extends string, const Schema extends InputSchema>(
+  head<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
     path: Path,
     schema: Schema,
     handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "HEAD",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
         >,
-        JoinPath<BasePath, Path>
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  head(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("HEAD", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a OPTIONS route
+   */
+  options<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
       >,
       Singleton,
-      JoinPath<BasePath, Path>
+      JoinPath<BasePath, Path>,
+      Return
     >,
   ): Kito<
     BasePath,
@@ -561,39 +1883,166 @@ export class Kito<
       Routes,
       CreateRoute<
         JoinPath<BasePath, Path>,
-        "PUT",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
+        "OPTIONS",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
       >
     >,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   >;
 
-  put(
+  options<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "OPTIONS",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  options(
     path: string,
-    schemaOrHandler: InputSchema | Function,
-    handler?: Function,
-  ): any {
-    return this.addRoute("PUT", path, schemaOrHandler, handler);
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("OPTIONS", path, schemaOrHandler, handler);
   }
 
   /**
-   * Register a DELETE route
+   * Register a TRACE route
    */
-  delete<const Path extends string, const Schema extends InputSchema = {}>(
+  trace<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
     path: Path,
     handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "TRACE",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
         >,
-        JoinPath<BasePath, Path>
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  trace<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
       >,
       Singleton,
-      JoinPath<BasePath, Path>
+      JoinPath<BasePath, Path>,
+      Return
     >,
   ): Kito<
     BasePath,
@@ -603,29 +2052,244 @@ export class Kito<
       Routes,
       CreateRoute<
         JoinPath<BasePath, Path>,
-        "DELETE",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
+        "TRACE",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  trace(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("TRACE", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a route that handles every HTTP method. Routes for a specific
+   * method on the same path take priority
+   *
+   * @example
+   * ```typescript
+   * app.all('/health', ({ request }) => ({ method: request.method }));
+   * ```
+   */
+  all<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "ALL",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
       >
     >,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   >;
 
-  delete<const Path extends string, const Schema extends InputSchema>(
+  all<
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
     path: Path,
     schema: Schema,
     handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        "ALL",
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  all(
+    path: string,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute("ALL", path, schemaOrHandler, handler);
+  }
+
+  /**
+   * Register a route for the given HTTP method
+   *
+   * @example
+   * ```typescript
+   * app.route('GET', '/users/:id', ({ params }) => ({ id: params.id }));
+   * ```
+   */
+  route<
+    const Method extends HTTPMethod,
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata> = object,
+    Return = unknown,
+  >(
+    method: Method,
+    path: Path,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
+      >,
+      Singleton,
+      JoinPath<BasePath, Path>,
+      Return
+    >,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<
+      Routes,
+      CreateRoute<
+        JoinPath<BasePath, Path>,
+        Method,
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
         >,
-        JoinPath<BasePath, Path>
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
+      >
+    >,
+    Ephemeral,
+    Volatile,
+    Metadata
+  >;
+
+  route<
+    const Method extends HTTPMethod,
+    const Path extends string,
+    const Schema extends RouteOptions<Definitions, Metadata>,
+    Return = unknown,
+  >(
+    method: Method,
+    path: Path,
+    schema: Schema,
+    handler: InlineHandler<
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
       >,
       Singleton,
-      JoinPath<BasePath, Path>
+      JoinPath<BasePath, Path>,
+      Return
     >,
   ): Kito<
     BasePath,
@@ -635,71 +2299,223 @@ export class Kito<
       Routes,
       CreateRoute<
         JoinPath<BasePath, Path>,
-        "DELETE",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
+        Method,
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >,
+        RouteResponse<
+          InheritedRouteSchema<
+            Schema,
+            JoinPath<BasePath, Path>,
+            Definitions,
+            Ephemeral,
+            Volatile
+          >["response"],
+          Awaited<Return>
+        > &
+          ErrorResponseSchema<Definitions["error"]>
       >
     >,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   >;
 
-  delete(
+  route(
+    method: HTTPMethod,
     path: string,
-    schemaOrHandler: InputSchema | Function,
-    handler?: Function,
-  ): any {
-    return this.addRoute("DELETE", path, schemaOrHandler, handler);
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
+  ): unknown {
+    return this.addRoute(method, path, schemaOrHandler, handler);
   }
 
+  // ==========================================================================
+  // Route Groups
+  // ==========================================================================
+
   /**
-   * Register a PATCH route
+   * Register routes under a common prefix
+   * Hooks added inside the group only apply to the group's routes
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .group('/v1', (app) =>
+   *     app
+   *       .get('/users', () => [])
+   *       .get('/users/:id', ({ params }) => ({ id: params.id })),
+   *   );
+   * ```
    */
-  patch<const Path extends string, const Schema extends InputSchema = {}>(
-    path: Path,
-    handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
-        >,
-        JoinPath<BasePath, Path>
+  group<const Prefix extends string, const NewKito extends AnyKito>(
+    prefix: Prefix,
+    fn: (
+      group: Kito<
+        JoinPath<BasePath, Prefix>,
+        Singleton,
+        Definitions,
+        {},
+        Ephemeral,
+        Volatile,
+        Metadata
       >,
+    ) => NewKito,
+  ): Kito<
+    BasePath,
+    Singleton,
+    Definitions,
+    MergeRoutes<Routes, NewKito["~Routes"]>,
+    Ephemeral,
+    Volatile,
+    Metadata
+  > {
+    const group = this.fork(`${this.config.prefix ?? ""}${prefix}`);
+    fn(group as any);
+
+    this.adopt(group, createLifeCycleStore());
+    return this as any;
+  }
+
+  /**
+   * Share a schema and hooks across a block of routes
+   * Route schemas take precedence over the guard's schema
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .guard(
+   *     {
+   *       headers: t.object({ authorization: t.str() }),
+   *       beforeHandle: ({ headers, set }) => {
+   *         if (!isValid(headers.authorization)) {
+   *           set.status = 401;
+   *           return { error: 'Unauthorized' };
+   *         }
+   *       },
+   *     },
+   *     (app) => app.get('/me', ({ headers }) => headers.authorization),
+   *   );
+   * ```
+   */
+  guard<
+    const Schema extends GuardSchema<ModelName<Definitions>> &
+      MacroOptions<Metadata["macro"]>,
+    const NewKito extends AnyKito,
+  >(
+    hook: GuardHook<
+      Schema,
+      InheritedRouteSchema<Schema, BasePath, Definitions, Ephemeral, Volatile>,
       Singleton,
-      JoinPath<BasePath, Path>
+      Definitions["error"],
+      Metadata["macro"]
     >,
+    fn: (
+      guard: Kito<
+        BasePath,
+        Singleton,
+        Definitions,
+        {},
+        Ephemeral,
+        {
+          derive: Volatile["derive"];
+          resolve: Volatile["resolve"];
+          schema: MergeSchema<
+            Volatile["schema"],
+            UnwrapInputSchema<Schema, "", Definitions["schemas"]>
+          >;
+          response: Volatile["response"];
+        },
+        Metadata
+      >,
+    ) => NewKito,
   ): Kito<
     BasePath,
     Singleton,
     Definitions,
-    MergeRoutes<
-      Routes,
-      CreateRoute<
-        JoinPath<BasePath, Path>,
-        "PATCH",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
-      >
-    >,
+    MergeRoutes<Routes, NewKito["~Routes"]>,
     Ephemeral,
-    Volatile
-  >;
+    Volatile,
+    Metadata
+  > {
+    const hooks = createLifeCycleStore();
+    const schema = this.applyMacros(
+      splitLocalHooks(hook as GuardSchema, hooks),
+      hooks,
+    );
+
+    const guard = this.fork(this.config.prefix ?? "");
+    fn(guard as any);
+
+    this.adopt(guard, hooks, schema);
+    return this as any;
+  }
+
+  /**
+   * Forward every request under a path, whatever its method, to a fetch
+   * handler or another app, with the path prefix stripped
+   * Lifecycle hooks of this instance do not run for mounted requests
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito()
+   *   .mount('/legacy', (request) => legacy.fetch(request))
+   *   .mount('/admin', adminApp);
+   * ```
+   */
+  mount(path: string, target: MountTarget): this {
+    return this.registerRoute({
+      method: "ALL",
+      path: this.config.prefix ? `${this.config.prefix}${path}` : path,
+      handler: target,
+      hooks: createLifeCycleStore(),
+      mount: true,
+    });
+  }
 
-  patch<const Path extends string, const Schema extends InputSchema>(
+  /**
+   * Register a WebSocket route
+   * The upgrade request is validated against the `params`, `query` and
+   * `headers` schemas, each incoming message against `body`, and the
+   * `response` schema types the messages sent back
+   * Derive and resolve hooks run once per connection, before `open`
+   *
+   * @example
+   * ```typescript
+   * app.ws('/chat', {
+   *   body: t.object({ text: t.str() }),
+   *   message(ws, { text }) {
+   *     ws.send({ text, from: ws.data.query.name });
+   *   },
+   * });
+   *
+   * // Client
+   * const chat = api.chat.subscribe({ query: { name: 'kito' } });
+   * chat.subscribe(({ data }) => console.log(data.text));
+   * ```
+   */
+  ws<
+    const Path extends string,
+    const Schema extends WebSocketSchema<ModelName<Definitions>> &
+      MacroOptions<Metadata["macro"]>,
+  >(
     path: Path,
-    schema: Schema,
-    handler: InlineHandler<
-      MergeSchema<
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        MergeSchema<
-          Volatile["schema"],
-          MergeSchema<Ephemeral["schema"], EmptyRouteSchema>
-        >,
-        JoinPath<BasePath, Path>
+    options: WebSocketHook<
+      Schema,
+      InheritedRouteSchema<
+        Schema,
+        JoinPath<BasePath, Path>,
+        Definitions,
+        Ephemeral,
+        Volatile
       >,
       Singleton,
-      JoinPath<BasePath, Path>
+      JoinPath<BasePath, Path>,
+      Metadata["macro"]
     >,
   ): Kito<
     BasePath,
@@ -707,23 +2523,99 @@ export class Kito<
     Definitions,
     MergeRoutes<
       Routes,
-      CreateRoute<
+      CreateWebSocketRoute<
         JoinPath<BasePath, Path>,
-        "PATCH",
-        UnwrapInputSchema<Schema, JoinPath<BasePath, Path>>,
-        { 200: Awaited<ReturnType<typeof handler>> }
+        InheritedRouteSchema<
+          Schema,
+          JoinPath<BasePath, Path>,
+          Definitions,
+          Ephemeral,
+          Volatile
+        >
       >
     >,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   >;
 
-  patch(
-    path: string,
-    schemaOrHandler: InputSchema | Function,
-    handler?: Function,
-  ): any {
-    return this.addRoute("PATCH", path, schemaOrHandler, handler);
+  // Implementation
+  ws(path: string, options: Record<string, unknown>): unknown {
+    const handlers: Record<string, unknown> = {};
+    const schemaOptions: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(options)) {
+      if ((WEBSOCKET_EVENTS as readonly string[]).includes(key)) {
+        handlers[key] = value;
+      } else {
+        schemaOptions[key] = value;
+      }
+    }
+
+    const hooks = createLifeCycleStore();
+    const schema = this.applyMacros(schemaOptions, hooks);
+
+    return this.registerRoute({
+      method: "GET",
+      path: this.config.prefix ? `${this.config.prefix}${path}` : path,
+      handler: handlers,
+      hooks: mergeLifeCycle(this.lifecycle, hooks),
+      schema: Object.keys(schema).length > 0 ? schema : undefined,
+      websocket: true,
+    });
+  }
+
+  /**
+   * Send a message to every WebSocket subscribed to a topic, returning
+   * the number of sockets it was queued on
+   *
+   * @example
+   * ```typescript
+   * app
+   *   .ws('/live', { open: (ws) => ws.subscribe('prices') })
+   *   .post('/prices', ({ body }) => app.publish('prices', body));
+   * ```
+   */
+  publish(topic: string, data: unknown): number {
+    return this.internalServer.publish(topic, data);
+  }
+
+  /**
+   * Register the routes of a group or guard, running the scoped and global
+   * hooks of this instance, then the block's hooks, before each route's own
+   */
+  private adopt(
+    child: AnyKito,
+    hooks: LifeCycleStore,
+    schema: InputSchema = {},
+  ): void {
+    const blockHooks = mergeLifeCycle(
+      inheritedLifeCycle(this.lifecycle),
+      hooks,
+    );
+
+    for (const route of child.routes as InternalRoute[]) {
+      const merged = mergeInputSchemas(schema, route.schema);
+      this.registerRoute({
+        ...route,
+        schema: Object.keys(merged).length > 0 ? merged : undefined,
+        hooks: mergeLifeCycle(blockHooks, route.hooks),
+      });
+    }
+  }
+
+  /**
+   * Create a child instance sharing this instance's state, used by groups
+   */
+  private fork(prefix: string): AnyKito {
+    const child = new Kito({ prefix });
+    child.singletonStore = this.singletonStore;
+    child.decorators = this.decorators;
+    child.models = this.models;
+    child.macros = this.macros;
+    child.errorDefinitions = this.errorDefinitions;
+    child.plugins = this.plugins;
+    return child;
   }
 
   // ==========================================================================
@@ -733,86 +2625,506 @@ export class Kito<
   private addRoute(
     method: HTTPMethod,
     path: string,
-    schemaOrHandler: InputSchema | Function,
-    handler?: Function,
+    schemaOrHandler: InputSchema | AnyHandler,
+    handler?: AnyHandler,
   ): this {
     const fullPath = this.config.prefix ? `${this.config.prefix}${path}` : path;
 
-    let finalHandler: Function;
+    let finalHandler: AnyHandler;
     let schema: InputSchema | undefined;
+    const hooks = createLifeCycleStore();
 
     if (typeof schemaOrHandler === "function") {
       finalHandler = schemaOrHandler;
     } else {
-      schema = schemaOrHandler;
+      schema = this.applyMacros(schemaOrHandler, hooks);
       finalHandler = handler!;
     }
 
+    return this.registerRoute({
+      method,
+      path: fullPath,
+      handler: finalHandler,
+      hooks: mergeLifeCycle(this.lifecycle, hooks),
+      schema: schema && Object.keys(schema).length > 0 ? schema : undefined,
+    });
+  }
+
+  /**
+   * Run the macros enabled in a route's options, pushing the hooks they
+   * return to `hooks`, and return the options without macro keys
+   */
+  private applyMacros(options: object, hooks: LifeCycleStore): InputSchema {
+    const schema: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(options)) {
+      if (!(key in this.macros)) {
+        schema[key] = value;
+        continue;
+      }
+      if (value === undefined) continue;
+
+      const hook = this.macros[key](value);
+      if (hook) splitLocalHooks(hook, hooks);
+    }
+
+    return schema;
+  }
+
+  private registerRoute(route: InternalRoute): this {
+    this.routes.push(route);
+
+    // Routes added after the server started are registered right away
+    if (this.compiled) this.compile();
+
+    return this;
+  }
+
+  /**
+   * Register routes that are not yet known to the internal server
+   */
+  private compile(): void {
+    // Request hooks run for requests that match no route as well
+    if (
+      !this.compiled &&
+      this.lifecycle.request.length > 0 &&
+      !this.routes.some((route) => route.notFound)
+    ) {
+      const hooks = createLifeCycleStore();
+      hooks.request = [...this.lifecycle.request];
+      this.compileRoute({
+        method: "ALL",
+        path: "",
+        handler: defaultNotFound,
+        hooks,
+        notFound: true,
+      });
+    }
+
+    this.compiled = true;
+    while (this.registeredRoutes < this.routes.length) {
+      this.compileRoute(this.routes[this.registeredRoutes++]);
+    }
+  }
+
+  private compileRoute(route: InternalRoute): void {
+    const { method, path: fullPath } = route;
+
+    if (route.mount) {
+      this.internalServer.mount(fullPath, route.handler as MountTarget);
+      return;
+    }
+
+    if (route.notFound) {
+      const handler = route.handler as ContextFunction;
+      this.internalServer.notFound(
+        this.wrapHandler(
+          (ctx) => {
+            const allowed = ctx.req.allowedMethods;
+            if (allowed.length > 0) {
+              ctx.set.status ??= 405;
+              ctx.set.headers.allow ??= allowed.join(", ");
+            } else {
+              ctx.set.status ??= 404;
+            }
+            return handler(ctx);
+          },
+          route.hooks,
+          fullPath,
+        ),
+      );
+      return;
+    }
+
+    const schema = route.schema && resolveModels(route.schema, this.models);
+
+    if (route.websocket) {
+      this.internalServer.ws(fullPath, {
+        ...this.wrapWebSocket(
+          route.handler as WebSocketHandlers,
+          route.hooks,
+          fullPath,
+        ),
+        schema,
+      });
+      return;
+    }
+
     // Wrap handler to inject derive/resolve/store
-    const wrappedHandler = this.wrapHandler(finalHandler);
+    const wrappedHandler = this.wrapHandler(
+      route.handler as ContextFunction,
+      route.hooks,
+      fullPath,
+    );
 
     // Register with internal server
-    const methodLower = method.toLowerCase() as
-      | "get"
-      | "post"
-      | "put"
-      | "delete"
-      | "patch";
+    const methodLower = method.toLowerCase() as Lowercase<HTTPMethod>;
 
     if (schema) {
-      (this.internalServer as any)[methodLower](
-        fullPath,
-        [schema],
-        wrappedHandler,
-      );
+      this.internalServer[methodLower](fullPath, [schema], wrappedHandler);
     } else {
-      (this.internalServer as any)[methodLower](fullPath, wrappedHandler);
+      this.internalServer[methodLower](fullPath, wrappedHandler);
     }
+  }
 
-    return this;
+  private wrapHandler(
+    handler: ContextFunction,
+    lifecycle: LifeCycleStore,
+    route: string,
+  ): (serverCtx: KitoContext) => Promise<void> {
+    const store = this.singletonStore;
+    const decorators = this.decorators;
+
+    return async (serverCtx) => {
+      const ctx = serverCtx as RequestContext;
+      ctx.set = { headers: {} };
+
+      try {
+        // Inject store
+        ctx.store = store;
+
+        defineRequestContext(ctx, route);
+
+        // Inject decorators
+        Object.assign(ctx, decorators);
+
+        // Run request hooks, a returned value skips the route
+        let result = await this.runUntilResult(lifecycle.request, ctx);
+
+        if (result === undefined) {
+          // Run derive functions
+          await this.runAssign(lifecycle.derive, ctx);
+
+          // Run transform hooks
+          for (const transform of lifecycle.transform) {
+            await transform.fn(ctx);
+          }
+
+          // Run resolve functions
+          await this.runAssign(lifecycle.resolve, ctx);
+
+          // Run beforeHandle hooks, a returned value skips the handler
+          result = await this.runUntilResult(lifecycle.beforeHandle, ctx);
+
+          // Call the actual handler
+          if (result === undefined) {
+            result = await handler(ctx);
+          }
+
+          result = await this.runMapping(lifecycle.afterHandle, ctx, result);
+        }
+
+        result = await this.runMapping(lifecycle.mapResponse, ctx, result);
+
+        await this.sendResult(ctx, result);
+      } catch (error) {
+        await this.handleError(ctx, error, lifecycle.error);
+      }
+
+      for (const afterResponse of lifecycle.afterResponse) {
+        try {
+          await afterResponse.fn(ctx);
+        } catch (error) {
+          console.error(error);
+        }
+      }
+    };
   }
 
-  private wrapHandler(handler: Function): Function {
+  /**
+   * Bind the event handlers of a WebSocket route to sockets carrying the
+   * context of their upgrade request
+   */
+  private wrapWebSocket(
+    handlers: WebSocketHandlers,
+    lifecycle: LifeCycleStore,
+    route: string,
+  ): Record<string, SocketEventHandler> {
     const store = this.singletonStore;
-    const deriveFns = this.deriveFunctions;
-    const resolveFns = this.resolveFunctions;
-    const decorators = (this.internalServer as any).decorators || {};
+    const decorators = this.decorators;
 
-    return async (ctx: any) => {
-      // Inject store
-      ctx.store = store;
+    // Sockets by server socket, settled once `open` has run
+    const sockets = new WeakMap<KitoWebSocket, Promise<KitoWS | undefined>>();
 
-      // Inject decorators
+    const createSocket = async (socket: KitoWebSocket): Promise<KitoWS> => {
+      const ctx = { req: socket.req, store } as RequestContext;
+      defineRequestContext(ctx, route);
       Object.assign(ctx, decorators);
 
-      // Run derive functions
-      for (const derive of deriveFns) {
-        const derived = await derive(ctx);
-        if (derived && typeof derived === "object") {
-          Object.assign(ctx, derived);
+      await this.runAssign(lifecycle.derive, ctx);
+      await this.runAssign(lifecycle.resolve, ctx);
+
+      return {
+        id: socket.id,
+        data: ctx,
+        send: (data) => socket.send(data),
+        ping: (data) => socket.ping(data),
+        pong: (data) => socket.pong(data),
+        close: (code, reason) => socket.close(code, reason),
+        subscribe: (topic) => socket.subscribe(topic),
+        unsubscribe: (topic) => socket.unsubscribe(topic),
+        isSubscribed: (topic) => socket.isSubscribed(topic),
+        publish: (topic, data) => socket.publish(topic, data),
+      };
+    };
+
+    const wrapped: Record<string, SocketEventHandler> = {
+      open: async (socket) => {
+        let settle!: (ws?: KitoWS) => void;
+        sockets.set(
+          socket,
+          new Promise((resolve) => {
+            settle = resolve;
+          }),
+        );
+
+        let ws: KitoWS;
+        try {
+          ws = await createSocket(socket);
+        } catch (error) {
+          // Later events skip sockets whose context could not be created
+          settle();
+          socket.close(1011, "Internal Server Error");
+          throw error;
         }
-      }
 
-      // Run resolve functions
-      for (const resolve of resolveFns) {
-        const resolved = await resolve(ctx);
-        if (resolved && typeof resolved === "object") {
-          Object.assign(ctx, resolved);
+        try {
+          await handlers.open?.(ws);
+        } finally {
+          settle(ws);
         }
+      },
+    };
+
+    for (const event of WEBSOCKET_EVENTS) {
+      if (event === "open") continue;
+
+      wrapped[event] = async (socket, ...args) => {
+        const ws = await sockets.get(socket);
+        const handler = handlers[event] as
+          | SocketEventHandler<KitoWS>
+          | undefined;
+        if (ws) await handler?.(ws, ...args);
+      };
+    }
+
+    return wrapped;
+  }
+
+  /**
+   * Run derive/resolve hooks in order, merging their results into `ctx`
+   */
+  private async runAssign(
+    hooks: LifeCycleStore[keyof LifeCycleStore],
+    ctx: RequestContext,
+  ): Promise<void> {
+    for (const hook of hooks) {
+      const values = await hook.fn(ctx);
+      if (values && typeof values === "object") {
+        Object.assign(ctx, values);
+      }
+    }
+  }
+
+  /**
+   * Run hooks in order until one of them returns a value
+   */
+  private async runUntilResult(
+    hooks: LifeCycleStore[keyof LifeCycleStore],
+    ctx: RequestContext,
+  ): Promise<unknown> {
+    for (const hook of hooks) {
+      const result = await hook.fn(ctx);
+      if (result !== undefined) return result;
+    }
+    return undefined;
+  }
+
+  /**
+   * Run hooks in order, each one may replace `ctx.response`
+   */
+  private async runMapping(
+    hooks: LifeCycleStore[keyof LifeCycleStore],
+    ctx: RequestContext,
+    response: unknown,
+  ): Promise<unknown> {
+    ctx.response = response;
+    for (const hook of hooks) {
+      const mapped = await hook.fn(ctx);
+      if (mapped !== undefined) ctx.response = mapped;
+    }
+    return ctx.response;
+  }
+
+  /**
+   * Run onError hooks for a thrown error and send the resulting response
+   */
+  private async handleError(
+    ctx: RequestContext,
+    thrown: unknown,
+    errorHooks: LifeCycleStore["error"],
+  ): Promise<void> {
+    const error = thrown instanceof Error ? thrown : new Error(String(thrown));
+
+    let code = "UNKNOWN";
+    for (const [name, ErrorClass] of Object.entries(this.errorDefinitions)) {
+      if (error instanceof ErrorClass) {
+        code = name;
+        break;
+      }
+    }
+
+    ctx.code = code;
+    ctx.error = error;
+
+    // Drop what the failed handler set for its own response, error hooks may
+    // still set them again
+    ctx.set.status = undefined;
+    ctx.set.redirect = undefined;
+    ctx.set.headers = {};
+
+    const mapped = await this.runUntilResult(errorHooks, ctx);
+    if (mapped !== undefined) {
+      return this.sendError(ctx, error, mapped);
+    }
+
+    if (code === "UNKNOWN") {
+      console.error(error);
+    }
+
+    await this.sendError(ctx, error, { error: code, message: error.message });
+  }
+
+  private sendError(
+    ctx: RequestContext,
+    error: Error,
+    body: unknown,
+  ): Promise<void> {
+    const errorStatus = (error as { status?: unknown }).status;
+
+    return this.sendResult(
+      ctx,
+      body,
+      typeof errorStatus === "number" ? errorStatus : 500,
+    );
+  }
+
+  /**
+   * Send a returned value with the status, headers and redirect from ctx.set
+   *
+   * - `Response`: sent with its own status and headers, its body streamed
+   * - `Blob` / `File`: sent with the blob's content type
+   * - `Buffer` / `Uint8Array`: sent as is
+   * - `ReadableStream` / async iterable: streamed chunk by chunk, or as
+   *   server-sent events when `set.headers['content-type']` is
+   *   `text/event-stream`
+   * - other objects: sent as JSON
+   */
+  private async sendResult(
+    ctx: RequestContext,
+    result: unknown,
+    status = 200,
+  ): Promise<void> {
+    if (ctx.res.headersSent) return;
+
+    if (result instanceof StatusResponse) {
+      ctx.set.status = result.code;
+      result = result.response;
+    }
+
+    // Run a generator up to its first chunk, it may still set headers
+    let chunks: AsyncIterator<unknown> | undefined;
+    let first: IteratorResult<unknown> | undefined;
+    if (isAsyncIterable(result)) {
+      chunks = result[Symbol.asyncIterator]();
+      first = await chunks.next();
+    }
+
+    const { set } = ctx;
+    if (result === undefined && set.status === undefined && !set.redirect) {
+      return;
+    }
+
+    for (const [name, value] of Object.entries(set.headers)) {
+      ctx.res.header(name, String(value));
+    }
+
+    if (set.redirect) {
+      ctx.res.redirect(set.redirect, set.status);
+      return;
+    }
+
+    if (result instanceof Response) {
+      ctx.res.status(result.status);
+      result.headers.forEach((value, name) => {
+        ctx.res.header(name, value);
+      });
+
+      const { body } = result;
+      if (isAsyncIterable(body)) {
+        const bodyChunks = body[Symbol.asyncIterator]();
+        await this.streamResult(ctx, bodyChunks, await bodyChunks.next());
+      } else {
+        ctx.res.send(Buffer.from(await result.arrayBuffer()));
+      }
+      return;
+    }
+
+    ctx.res.status(set.status ?? status);
+
+    if (result instanceof Blob) {
+      if (result.type && !findHeader(set.headers, "content-type")) {
+        ctx.res.type(result.type);
+      }
+      ctx.res.send(Buffer.from(await result.arrayBuffer()));
+    } else if (result instanceof Uint8Array) {
+      if (!findHeader(set.headers, "content-type")) {
+        ctx.res.type("application/octet-stream");
       }
+      ctx.res.send(Buffer.from(result));
+    } else if (chunks && first) {
+      await this.streamResult(ctx, chunks, first);
+    } else if (typeof result === "object" && result !== null) {
+      ctx.res.json(result);
+    } else {
+      ctx.res.send(result === undefined ? "" : String(result));
+    }
+  }
 
-      // Call the actual handler
-      const result = await handler(ctx);
+  private async streamResult(
+    ctx: RequestContext,
+    chunks: AsyncIterator<unknown>,
+    first: IteratorResult<unknown>,
+  ): Promise<void> {
+    const contentType = findHeader(ctx.set.headers, "content-type");
+
+    if (contentType?.startsWith("text/event-stream")) {
+      const events = ctx.res.sse();
+      try {
+        for (let step = first; !step.done; step = await chunks.next()) {
+          events.send(step.value);
+        }
+      } finally {
+        events.close();
+      }
+      return;
+    }
 
-      // If result is returned, send it
-      if (result !== undefined) {
-        if (typeof result === "object" && result !== null) {
-          ctx.res.json(result);
+    const writer = ctx.res.stream();
+    try {
+      for (let step = first; !step.done; step = await chunks.next()) {
+        const chunk = step.value;
+        if (chunk instanceof Uint8Array) {
+          writer.write(Buffer.from(chunk));
+        } else if (typeof chunk === "object" && chunk !== null) {
+          writer.write(JSON.stringify(chunk));
         } else {
-          ctx.res.send(String(result));
+          writer.write(String(chunk));
         }
       }
-    };
+    } finally {
+      writer.end();
+    }
   }
 
   // ==========================================================================
@@ -822,6 +3134,10 @@ export class Kito<
   /**
    * Use a plugin or another Kito instance
    *
+   * The plugin's routes are registered on this instance (under this
+   * instance's prefix) and keep running the plugin's local hooks.
+   * A named plugin is only applied once.
+   *
    * @example
    * ```typescript
    * const authPlugin = new Kito()
@@ -848,21 +3164,61 @@ export class Kito<
       derive: Prettify<Singleton["derive"] & Plugin["~Singleton"]["derive"]>;
       resolve: Prettify<Singleton["resolve"] & Plugin["~Singleton"]["resolve"]>;
     },
-    Definitions,
-    MergeRoutes<Routes, Plugin["~Routes"]>,
+    {
+      schemas: Prettify<
+        Definitions["schemas"] & Plugin["~Definitions"]["schemas"]
+      >;
+      error: Prettify<Definitions["error"] & Plugin["~Definitions"]["error"]>;
+    },
+    MergeRoutes<Routes, AddPrefix<BasePath, Plugin["~Routes"]>>,
     Ephemeral,
-    Volatile
+    Volatile,
+    Metadata
   > {
-    // Merge stores
-    Object.assign(this.singletonStore, (plugin as any).singletonStore);
+    const source = plugin as any;
 
-    // Merge derive functions
-    this.deriveFunctions.push(...(plugin as any).deriveFunctions);
+    // Skip plugins that were already applied
+    const name: string | undefined = source.config.name;
+    if (name !== undefined) {
+      if (this.plugins.has(name)) return this as any;
+      this.plugins.add(name);
+    }
+    for (const applied of source.plugins) this.plugins.add(applied);
 
-    // Merge resolve functions
-    this.resolveFunctions.push(...(plugin as any).resolveFunctions);
+    // Merge stores
+    Object.assign(this.singletonStore, source.singletonStore);
+
+    // Merge decorators, models, macros and error definitions
+    Object.assign(this.decorators, source.decorators);
+    Object.assign(this.models, source.models);
+    Object.assign(this.macros, source.macros);
+    Object.assign(this.errorDefinitions, source.errorDefinitions);
+
+    // Plugin routes run the scoped and global hooks added here so far, then
+    // the hooks they were declared with
+    const parentHooks = inheritedLifeCycle(this.lifecycle);
+
+    // Keep the plugin hooks (derive and resolve included) that outlive it for
+    // the routes declared next, scoped hooks stop at this instance
+    const pluginHooks = inheritedLifeCycle(source.lifecycle);
+    for (const stage of LIFECYCLE_STAGES) {
+      for (const hook of pluginHooks[stage]) {
+        this.lifecycle[stage].push({
+          fn: hook.fn,
+          scope: hook.scope === "global" ? "global" : "local",
+        });
+      }
+    }
 
-    // TODO: Merge routes from plugin
+    for (const route of source.routes as InternalRoute[]) {
+      this.registerRoute({
+        ...route,
+        path: this.config.prefix
+          ? `${this.config.prefix}${route.path}`
+          : route.path,
+        hooks: mergeLifeCycle(parentHooks, route.hooks),
+      });
+    }
 
     return this as any;
   }
@@ -880,6 +3236,8 @@ export class Kito<
     portOrCallback?: number | (() => void),
     callback?: () => void,
   ): Promise<ServerOptions> {
+    this.compile();
+
     if (typeof portOrCallback === "function") {
       return this.internalServer.listen(portOrCallback);
     }
@@ -887,10 +3245,32 @@ export class Kito<
   }
 
   /**
-   * Stop the server
+   * Handle a Fetch API request without starting the server
+   *
+   * @example
+   * ```typescript
+   * const app = new Kito().get('/ping', () => 'pong');
+   *
+   * const res = await app.handle(new Request('http://localhost/ping'));
+   * expect(await res.text()).toBe('pong');
+   * ```
+   */
+  handle(request: Request): Promise<Response> {
+    this.compile();
+
+    return this.internalServer.handle(request);
+  }
+
+  /**
+   * Stop the server, waiting for in-flight requests to finish
+   *
+   * @example
+   * ```typescript
+   * await app.close({ timeout: 5000 });
+   * ```
    */
-  close(): void {
-    this.internalServer.close();
+  async close(options?: CloseOptions): Promise<void> {
+    await this.server?.close(options);
   }
 
   // ==========================================================================
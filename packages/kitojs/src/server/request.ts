@@ -5,6 +5,7 @@ import type {
   RequestHeaders,
 } from "@frankwww/kitopia-types";
 import {
+  getAllowedMethods,
   getBodyBuffer,
   getHeader,
   getAllHeaders,
@@ -24,6 +25,7 @@ import {
   getIps,
   getSecure,
   getXhr,
+  onAbort,
 } from "@frankwww/kitopia-core";
 
 export class RequestBuilder implements KitoRequest {
@@ -46,10 +48,15 @@ export class RequestBuilder implements KitoRequest {
   private _ips?: string[];
   private _secure?: boolean;
   private _xhr?: boolean;
+  private _request?: Request;
+  private _signal?: AbortSignal;
+  // biome-ignore lint/suspicious/noExplicitAny: ...
+  private channel?: any;
 
   // biome-ignore lint/suspicious/noExplicitAny: ...
-  constructor(requestCore: any) {
+  constructor(requestCore: any, responseChannel?: any) {
     this.core = requestCore;
+    this.channel = responseChannel;
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: ...
@@ -96,6 +103,47 @@ export class RequestBuilder implements KitoRequest {
     return String(this.body);
   }
 
+  toRequest(): Request {
+    if (!this._request) {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(this.headers)) {
+        if (value === undefined) continue;
+        headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+      }
+
+      const buf = getBodyBuffer(this.core);
+      const hasBody =
+        this.method !== "GET" && this.method !== "HEAD" && buf.length > 0;
+
+      this._request = new Request(
+        new URL(this.url, `${this.protocol}://${this.hostname}`),
+        {
+          method: this.method,
+          headers,
+          body: hasBody ? new Uint8Array(buf) : null,
+          signal: this.signal,
+        },
+      );
+    }
+
+    return this._request;
+  }
+
+  get signal(): AbortSignal {
+    if (!this._signal) {
+      const controller = new AbortController();
+      if (this.channel) {
+        onAbort(this.channel, () => {
+          controller.abort(
+            new DOMException("The request timed out", "TimeoutError"),
+          );
+        });
+      }
+      this._signal = controller.signal;
+    }
+    return this._signal;
+  }
+
   get headers(): RequestHeaders {
     if (!this._headers) {
       this._headers = getAllHeaders(this.core);
@@ -219,6 +267,10 @@ export class RequestBuilder implements KitoRequest {
     return this.url;
   }
 
+  get allowedMethods(): string[] {
+    return getAllowedMethods(this.core);
+  }
+
   get raw(): {
     body: Buffer;
     headers: RequestHeaders;
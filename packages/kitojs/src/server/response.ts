@@ -118,6 +118,10 @@ export class ResponseBuilder implements KitoResponse {
     };
   }
 
+  get headersSent(): boolean {
+    return this.finished;
+  }
+
   private checkFinished(): void {
     if (this.finished) {
       throw new Error("Response already sent");
@@ -4,19 +4,47 @@ import type {
   MiddlewareDefinition,
   SchemaDefinition,
   ServerOptions,
+  CloseOptions,
   RouteHandler,
   MiddlewareHandler,
   KitoContext,
   RouteChain,
   KitoServerInstance,
+  MountTarget,
+  KitoWebSocket,
+  WebSocketHandlers,
+  WebSocketMessage,
 } from "@frankwww/kitopia-types";
 
 import { ServerCore, type ServerOptionsCore } from "@frankwww/kitopia-core";
 import { RequestBuilder } from "./request";
 import { ResponseBuilder } from "./response";
+import {
+  WebSocketBuilder,
+  encodeMessage,
+  type WebSocketEvent,
+} from "./websocket";
 
 import { analyzeHandler, type StaticResponseType } from "./analyzer";
 
+// Statuses a Fetch API `Response` cannot carry a body with
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// Headers of a mounted app's response that do not carry over: hop-by-hop
+// ones, and the encoding and length of a body fetch has already decoded
+const MOUNT_SKIPPED_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "content-encoding",
+  "content-length",
+]);
+
 /**
  * Main server class for Kito framework.
  * Provides HTTP routing, middleware support, and context extensions.
@@ -52,8 +80,18 @@ export class KitoServer<TExtensions = {}>
    * @param options.port - Port to listen on (default: 3000)
    * @param options.host - Host to bind to (default: "0.0.0.0")
    * @param options.trustProxy - Trust X-Forwarded-* headers
-   * @param options.maxRequestSize - Maximum request body size in bytes
-   * @param options.timeout - Request timeout in milliseconds
+   * @param options.maxRequestSize - Largest request body in bytes, larger ones
+   * are answered with 413 (default: 10 MiB)
+   * @param options.timeout - Request timeout in milliseconds, answered with 408
+   * or 504
+   * @param options.responseValidation - How response schema violations are
+   * handled (default: "strict")
+   * @param options.autoHead - Answer HEAD requests from GET routes
+   * (default: true)
+   * @param options.autoOptions - Answer OPTIONS requests with the allowed
+   * methods (default: true)
+   * @param options.handleSignals - Close gracefully on SIGTERM and SIGINT
+   * (default: false)
    */
   constructor(options?: ServerOptions) {
     this.serverOptions = { ...this.serverOptions, ...options };
@@ -65,6 +103,9 @@ export class KitoServer<TExtensions = {}>
       trustProxy: options?.trustProxy,
       maxRequestSize: options?.maxRequestSize,
       timeout: options?.timeout,
+      responseValidation: options?.responseValidation,
+      autoHead: options?.autoHead,
+      autoOptions: options?.autoOptions,
     });
   }
 
@@ -391,6 +432,71 @@ export class KitoServer<TExtensions = {}>
     return this as KitoServer<TExtensions>;
   }
 
+  /**
+   * Registers a TRACE route.
+   *
+   * @template TSchema - Request schema type
+   * @param path - Route path
+   * @param handler - Route handler function
+   * @returns The server instance for chaining
+   */
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServer<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    middlewares: (MiddlewareDefinition | TSchema)[],
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServer<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    middlewaresOrHandler:
+      | (MiddlewareDefinition | TSchema)[]
+      | RouteHandler<TSchema, TExtensions>,
+    handler?: RouteHandler<TSchema, TExtensions>,
+  ): KitoServer<TExtensions> {
+    this.addRoute<TSchema>("TRACE", path, middlewaresOrHandler, handler);
+
+    return this as KitoServer<TExtensions>;
+  }
+
+  /**
+   * Registers a route answering every method. Routes registered for a
+   * specific method on the same path take priority.
+   *
+   * @template TSchema - Request schema type
+   * @param path - Route path
+   * @param handler - Route handler function
+   * @returns The server instance for chaining
+   */
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  all<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServer<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  all<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    middlewares: (MiddlewareDefinition | TSchema)[],
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServer<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  all<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    middlewaresOrHandler:
+      | (MiddlewareDefinition | TSchema)[]
+      | RouteHandler<TSchema, TExtensions>,
+    handler?: RouteHandler<TSchema, TExtensions>,
+  ): KitoServer<TExtensions> {
+    this.addRoute<TSchema>("ALL", path, middlewaresOrHandler, handler);
+
+    return this as KitoServer<TExtensions>;
+  }
+
   /**
    * Creates a route builder for chaining multiple HTTP methods on the same path.
    *
@@ -486,6 +592,17 @@ export class KitoServer<TExtensions = {}>
         return chain;
       },
 
+      // biome-ignore lint/complexity/noBannedTypes: ...
+      trace<TSchema extends SchemaDefinition = {}>(
+        middlewaresOrHandler:
+          | (MiddlewareDefinition | TSchema)[]
+          | RouteHandler<TSchema, TExtensions>,
+        handler?: RouteHandler<TSchema, TExtensions>,
+      ): RouteChain<TExtensions> {
+        self.addRoute("TRACE", path, middlewaresOrHandler, handler);
+        return chain;
+      },
+
       end(): KitoServer<TExtensions> {
         return self;
       },
@@ -494,9 +611,241 @@ export class KitoServer<TExtensions = {}>
     return chain;
   }
 
+  /**
+   * Forwards every request under a path, whatever its method, to a fetch
+   * handler or another app. The path prefix is stripped from the forwarded
+   * request's URL, and the response body is streamed back as it arrives.
+   *
+   * @param path - Path prefix to mount at
+   * @param target - Fetch handler, or an app with a `handle()` method
+   * @returns The server instance for chaining
+   *
+   * @example
+   * ```typescript
+   * app.mount('/legacy', (request) => legacy.fetch(request));
+   * app.mount('/admin', adminApp);
+   * ```
+   */
+  mount(path: string, target: MountTarget): KitoServer<TExtensions> {
+    const fetch =
+      typeof target === "function"
+        ? target
+        : (request: Request) => target.handle(request);
+
+    const mountHandler = async (ctx: KitoContext) => {
+      const reqBuilder = new RequestBuilder(ctx.req, ctx.res);
+      const resBuilder = new ResponseBuilder(ctx.res);
+
+      try {
+        const request = reqBuilder.toRequest();
+        const url = new URL(request.url);
+        url.pathname = `/${reqBuilder.params["*"] ?? ""}`;
+
+        const response = await fetch(new Request(url, request));
+
+        resBuilder.status(response.status);
+        response.headers.forEach((value, name) => {
+          if (!MOUNT_SKIPPED_HEADERS.has(name)) {
+            resBuilder.header(name, value);
+          }
+        });
+
+        if (!response.body) {
+          resBuilder.send("");
+          return;
+        }
+
+        const reader = response.body.getReader();
+        const writer = resBuilder.stream();
+        try {
+          let step = await reader.read();
+          while (!step.done) {
+            writer.write(Buffer.from(step.value));
+            step = await reader.read();
+          }
+        } finally {
+          writer.end();
+        }
+      } catch (error) {
+        // The client was already answered with 504
+        if (reqBuilder.signal.aborted) return;
+
+        console.error(error);
+
+        if (!resBuilder.headersSent) {
+          resBuilder.status(500).json({
+            error: "Internal Server Error",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    };
+
+    this.coreServer.addRoute({
+      method: "ALL",
+      path,
+      handler: mountHandler,
+      wildcard: true,
+    });
+
+    return this as KitoServer<TExtensions>;
+  }
+
+  /**
+   * Registers a WebSocket route.
+   * The upgrade request is validated against `params`, `query`, `headers` and
+   * `cookie` of the schema, and each incoming message against its `body`.
+   *
+   * @template TSchema - Route schema type
+   * @param path - Route path
+   * @param handlers - Socket event handlers and optional schema
+   * @returns The server instance for chaining
+   *
+   * @example
+   * ```typescript
+   * app.ws('/chat', {
+   *   schema: { body: t.object({ text: t.str() }) },
+   *   open: ws => ws.send({ joined: ws.id }),
+   *   message: (ws, message) => ws.send({ echo: message.text }),
+   * });
+   * ```
+   */
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  ws<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    handlers: WebSocketHandlers<TSchema>,
+  ): KitoServer<TExtensions> {
+    const sockets = new Map<number, KitoWebSocket<TSchema>>();
+    const parseMessage = (event: WebSocketEvent) => {
+      // biome-ignore lint/style/noNonNullAssertion: ...
+      const data = event.data!;
+      if (event.binary) return data;
+
+      // Messages validated against a body schema are JSON
+      const text = data.toString("utf-8");
+      return handlers.schema?.body ? JSON.parse(text) : text;
+    };
+
+    const wsHandler = async (event: WebSocketEvent) => {
+      if (event.kind === "open") {
+        sockets.set(
+          event.id,
+          new WebSocketBuilder(
+            event.id,
+            event.socket,
+            event.req,
+          ) as unknown as KitoWebSocket<TSchema>,
+        );
+      }
+
+      const ws = sockets.get(event.id);
+      if (!ws) return;
+
+      try {
+        switch (event.kind) {
+          case "open":
+            await handlers.open?.(ws);
+            break;
+          case "message":
+            await handlers.message?.(
+              ws,
+              parseMessage(event) as WebSocketMessage<TSchema>,
+            );
+            break;
+          case "drain":
+            await handlers.drain?.(ws);
+            break;
+          case "ping":
+            // biome-ignore lint/style/noNonNullAssertion: ...
+            await handlers.ping?.(ws, event.data!);
+            break;
+          case "pong":
+            // biome-ignore lint/style/noNonNullAssertion: ...
+            await handlers.pong?.(ws, event.data!);
+            break;
+          case "close":
+            sockets.delete(event.id);
+            await handlers.close?.(ws, event.code ?? 1005, event.reason ?? "");
+            break;
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    };
+
+    this.coreServer.addWebSocketRoute({
+      path,
+      handler: wsHandler,
+      schema: handlers.schema
+        ? this.serializeSchema(handlers.schema)
+        : undefined,
+    });
+
+    return this as KitoServer<TExtensions>;
+  }
+
+  /**
+   * Sends a message to every WebSocket subscribed to a topic.
+   * Strings are sent as text, buffers as binary and anything else as JSON.
+   *
+   * @param topic - Topic subscribed to with `ws.subscribe()`
+   * @param data - Message to send
+   * @returns Number of sockets the message was queued on
+   *
+   * @example
+   * ```typescript
+   * app.post('/announce', ctx => {
+   *   app.publish('news', ctx.req.body);
+   *   ctx.res.sendStatus(204);
+   * });
+   * ```
+   */
+  publish(topic: string, data: unknown): number {
+    return this.coreServer.publish(topic, ...encodeMessage(data));
+  }
+
+  /**
+   * Sets the handler for requests that match no route, answered with a 404
+   * status unless the handler sets another one. Global middlewares
+   * registered so far run before it.
+   * Requests whose path matches a route under another method reach it as
+   * well, with a 405 status, an `Allow` header and the path's methods in
+   * `ctx.req.allowedMethods`.
+   *
+   * @param handler - Handler function
+   * @returns The server instance for chaining
+   *
+   * @example
+   * ```typescript
+   * app.notFound(ctx => {
+   *   ctx.res.json({ error: `No route for ${ctx.req.pathname}` });
+   * });
+   * ```
+   */
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  notFound(handler: RouteHandler<{}, TExtensions>): KitoServer<TExtensions> {
+    const fusedHandler = this.fuseMiddlewares(
+      this.globalMiddlewares,
+      [],
+      // biome-ignore lint/complexity/noBannedTypes: ...
+      (ctx: KitoContext<{}> & TExtensions) => {
+        const allowed = ctx.req.allowedMethods;
+        if (allowed.length > 0) {
+          ctx.res.status(405).header("allow", allowed.join(", "));
+        } else {
+          ctx.res.status(404);
+        }
+        return handler(ctx);
+      },
+    );
+
+    this.coreServer.setNotFound(this.toCoreHandler(fusedHandler));
+    return this as KitoServer<TExtensions>;
+  }
+
   // biome-ignore lint/complexity/noBannedTypes: ...
   private addRoute<TSchema extends SchemaDefinition = {}>(
-    method: HttpMethod,
+    method: HttpMethod | "ALL",
     path: string,
     middlewaresOrHandler:
       | (MiddlewareDefinition | TSchema)[]
@@ -546,19 +895,7 @@ export class KitoServer<TExtensions = {}>
       finalHandler,
     );
 
-    const routeHandler = async (ctx: KitoContext<TSchema>) => {
-      const reqBuilder = new RequestBuilder(ctx.req);
-      const resBuilder = new ResponseBuilder(ctx.res);
-
-      // biome-ignore lint/suspicious/noExplicitAny: ...
-      const context: any = { req: reqBuilder, res: resBuilder };
-
-      if (this.extensionFn) {
-        this.extensionFn(context);
-      }
-
-      await fusedHandler(context);
-    };
+    const routeHandler = this.toCoreHandler(fusedHandler);
 
     const schemaJson = routeSchema
       ? this.serializeSchema(routeSchema)
@@ -575,9 +912,44 @@ export class KitoServer<TExtensions = {}>
       handler: routeHandler,
       schema: schemaJson,
       staticResponse: staticResponseJson,
+      maxRequestSize: routeSchema?.maxRequestSize,
+      timeout: routeSchema?.timeout,
     });
   }
 
+  /**
+   * Wraps a handler, middlewares included, into the handler called by the
+   * core for each request
+   */
+  private toCoreHandler<TSchema extends SchemaDefinition>(
+    handler: RouteHandler<TSchema, TExtensions>,
+  ) {
+    return async (ctx: KitoContext<TSchema>) => {
+      const reqBuilder = new RequestBuilder(ctx.req, ctx.res);
+      const resBuilder = new ResponseBuilder(ctx.res);
+
+      // biome-ignore lint/suspicious/noExplicitAny: ...
+      const context: any = { req: reqBuilder, res: resBuilder };
+
+      if (this.extensionFn) {
+        this.extensionFn(context);
+      }
+
+      try {
+        await handler(context);
+      } catch (error) {
+        console.error(error);
+
+        if (!resBuilder.headersSent) {
+          resBuilder.status(500).json({
+            error: "Internal Server Error",
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    };
+  }
+
   private serializeSchema(schema: SchemaDefinition): string {
     // biome-ignore lint/suspicious/noExplicitAny: ...
     const serialized: any = {};
@@ -598,6 +970,33 @@ export class KitoServer<TExtensions = {}>
       // biome-ignore lint/suspicious/noExplicitAny: ...
       serialized.headers = (schema.headers as any)._serialize();
     }
+    if (schema.cookie) {
+      // biome-ignore lint/suspicious/noExplicitAny: ...
+      serialized.cookie = (schema.cookie as any)._serialize();
+    }
+    if (schema.response) {
+      // A single response schema describes the 200 response
+      const statuses =
+        "_optional" in schema.response
+          ? { 200: schema.response }
+          : schema.response;
+      serialized.response = Object.fromEntries(
+        Object.entries(statuses).map(([status, response]) => [
+          status,
+          // biome-ignore lint/suspicious/noExplicitAny: ...
+          (response as any)._serialize(),
+        ]),
+      );
+    }
+    if (schema.definitions) {
+      serialized.definitions = Object.fromEntries(
+        Object.entries(schema.definitions).map(([name, definition]) => [
+          name,
+          // biome-ignore lint/suspicious/noExplicitAny: ...
+          (definition as any)._serialize(),
+        ]),
+      );
+    }
 
     return JSON.stringify(serialized);
   }
@@ -639,7 +1038,18 @@ export class KitoServer<TExtensions = {}>
 
   // biome-ignore lint/suspicious/noExplicitAny: ...
   private isSchemaDefinition(item: any): item is SchemaDefinition {
-    return item && (item.params || item.query || item.body || item.headers);
+    return (
+      item &&
+      (item.params ||
+        item.query ||
+        item.body ||
+        item.headers ||
+        item.cookie ||
+        item.response ||
+        item.definitions ||
+        item.maxRequestSize !== undefined ||
+        item.timeout !== undefined)
+    );
   }
 
   /**
@@ -690,6 +1100,7 @@ export class KitoServer<TExtensions = {}>
     let host: string | undefined;
     let unixSocket: string | undefined;
     let reusePort: boolean | undefined;
+    let handleSignals: boolean | undefined;
     let ready: (() => void) | undefined;
 
     if (typeof portOrCallbackOrOptions === "object") {
@@ -698,6 +1109,7 @@ export class KitoServer<TExtensions = {}>
       host = options.host;
       unixSocket = options.unixSocket;
       reusePort = options.reusePort;
+      handleSignals = options.handleSignals;
       ready = hostOrCallback as (() => void) | undefined;
     } else if (typeof portOrCallbackOrOptions === "function") {
       ready = portOrCallbackOrOptions;
@@ -728,19 +1140,131 @@ export class KitoServer<TExtensions = {}>
       trustProxy: this.serverOptions.trustProxy,
       maxRequestSize: this.serverOptions.maxRequestSize,
       timeout: this.serverOptions.timeout,
+      responseValidation: this.serverOptions.responseValidation,
+      autoHead: this.serverOptions.autoHead,
+      autoOptions: this.serverOptions.autoOptions,
     };
 
     this.coreServer.setConfig(configuration);
-    await this.coreServer.start(ready);
+
+    const removeSignalHandlers =
+      (handleSignals ?? this.serverOptions.handleSignals)
+        ? this.handleSignals()
+        : undefined;
+
+    try {
+      await this.coreServer.start(ready);
+    } finally {
+      removeSignalHandlers?.();
+    }
 
     return configuration;
   }
 
   /**
-   * Closes the server and stops accepting new connections.
+   * Closes the server on SIGTERM and SIGINT, then re-raises the signal so
+   * the process exits as it would have without the handler. Returns a
+   * function removing the handlers.
+   */
+  private handleSignals(): () => void {
+    const signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
+
+    const removeHandlers = () => {
+      for (const signal of signals) {
+        process.off(signal, onSignal);
+      }
+    };
+
+    const onSignal = async (signal: NodeJS.Signals) => {
+      // A second signal while closing falls through to the default handler
+      removeHandlers();
+      await this.close();
+      process.kill(process.pid, signal);
+    };
+
+    for (const signal of signals) {
+      process.once(signal, onSignal);
+    }
+
+    return removeHandlers;
+  }
+
+  /**
+   * Handles a Fetch API request without binding a listener.
+   * The request goes through the same routing, schema validation and
+   * handlers as one received on a socket. The response resolves once it
+   * has started, its body streaming as the handler sends it. WebSocket
+   * upgrades are rejected, as there is no connection to hand over.
+   *
+   * @param request - Request to dispatch
+   * @returns The response produced by the matching route
+   *
+   * @example
+   * ```typescript
+   * const app = server().get('/ping', ctx => ctx.res.send('pong'));
+   *
+   * const res = await app.handle(new Request('http://localhost/ping'));
+   * console.log(await res.text()); // "pong"
+   * ```
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    headers.host ??= url.host;
+
+    const body = request.body
+      ? Buffer.from(await request.arrayBuffer())
+      : undefined;
+
+    const response = await this.coreServer.dispatch({
+      method: request.method,
+      url: url.pathname + url.search,
+      headers,
+      body,
+    });
+
+    // Chunks are read as the handler sends them, so streamed responses
+    // resolve before they end
+    const { body: chunks } = response;
+    const responseBody = NULL_BODY_STATUSES.includes(response.status)
+      ? null
+      : new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const chunk = await chunks.next();
+            if (chunk) {
+              controller.enqueue(chunk);
+            } else {
+              controller.close();
+            }
+          },
+        });
+
+    return new Response(responseBody, {
+      status: response.status,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Closes the server gracefully: stops accepting new connections and
+   * resolves once in-flight requests and streams have finished and open
+   * WebSockets have been closed with code 1001.
+   *
+   * @param options - Close options
+   * @param options.timeout - Milliseconds to wait before open connections are
+   * dropped (default: 10000)
+   *
+   * @example
+   * ```typescript
+   * await app.close({ timeout: 5000 });
+   * ```
    */
-  close(): void {
-    this.coreServer.close();
+  close(options?: CloseOptions): Promise<void> {
+    return this.coreServer.close(options?.timeout);
   }
 }
 
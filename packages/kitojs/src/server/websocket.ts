@@ -0,0 +1,99 @@
+import type { KitoWebSocket } from "@frankwww/kitopia-types";
+
+import {
+  wsSend,
+  wsPing,
+  wsPong,
+  wsClose,
+  wsSubscribe,
+  wsUnsubscribe,
+  wsIsSubscribed,
+  wsPublish,
+} from "@frankwww/kitopia-core";
+import { RequestBuilder } from "./request";
+
+const toBuffer = (data?: string | Buffer): Buffer | undefined =>
+  typeof data === "string" ? Buffer.from(data, "utf-8") : data;
+
+/**
+ * Encodes a message: strings as text, buffers as binary and anything else
+ * as JSON text. Returns the payload and whether it is binary
+ */
+export function encodeMessage(data: unknown): [Buffer, boolean] {
+  if (typeof data === "string") {
+    return [Buffer.from(data, "utf-8"), false];
+  }
+  if (data instanceof ArrayBuffer) {
+    return [Buffer.from(data), true];
+  }
+  if (data instanceof Uint8Array) {
+    return [Buffer.from(data), true];
+  }
+
+  return [Buffer.from(JSON.stringify(data)), false];
+}
+
+export class WebSocketBuilder implements KitoWebSocket {
+  readonly req: RequestBuilder;
+  // biome-ignore lint/suspicious/noExplicitAny: ...
+  private socket: any;
+
+  constructor(
+    readonly id: number,
+    // biome-ignore lint/suspicious/noExplicitAny: ...
+    socket: any,
+    // biome-ignore lint/suspicious/noExplicitAny: ...
+    requestCore: any,
+  ) {
+    this.socket = socket;
+    this.req = new RequestBuilder(requestCore);
+  }
+
+  send(data: unknown): boolean {
+    return wsSend(this.socket, ...encodeMessage(data));
+  }
+
+  ping(data?: string | Buffer): void {
+    wsPing(this.socket, toBuffer(data));
+  }
+
+  pong(data?: string | Buffer): void {
+    wsPong(this.socket, toBuffer(data));
+  }
+
+  close(code?: number, reason?: string): void {
+    wsClose(this.socket, code, reason);
+  }
+
+  subscribe(topic: string): void {
+    wsSubscribe(this.socket, topic);
+  }
+
+  unsubscribe(topic: string): void {
+    wsUnsubscribe(this.socket, topic);
+  }
+
+  isSubscribed(topic: string): boolean {
+    return wsIsSubscribed(this.socket, topic);
+  }
+
+  publish(topic: string, data: unknown): number {
+    return wsPublish(this.socket, topic, ...encodeMessage(data));
+  }
+}
+
+/**
+ * Socket event sent by the core to a WebSocket route's handler
+ */
+export interface WebSocketEvent {
+  kind: "open" | "message" | "drain" | "ping" | "pong" | "close";
+  id: number;
+  // biome-ignore lint/suspicious/noExplicitAny: ...
+  socket: any;
+  // biome-ignore lint/suspicious/noExplicitAny: ...
+  req?: any;
+  data?: Buffer;
+  binary: boolean;
+  code?: number;
+  reason?: string;
+}
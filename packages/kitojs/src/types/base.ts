@@ -3,7 +3,14 @@
  * These define the shape of data stored in generic parameters
  */
 
-import type { Prettify, MaybePromise, ResolvePath } from "./utils";
+import type {
+  Prettify,
+  MaybePromise,
+  MaybeArray,
+  ResolvePath,
+  PathParameterLike,
+} from "./utils";
+import type { StatusResponse, status } from "../helpers/status";
 
 // ============================================================================
 // Schema Types (compatible with existing Kito schema system)
@@ -27,16 +34,34 @@ export type InferType<T extends SchemaType> = T extends { _default: infer D }
     ? T["_type"] | undefined
     : T["_type"];
 
+/**
+ * Reference to a model registered via .model(), e.g. `'User'` or `'User[]'`
+ */
+export type ModelRef<Name extends string = string> = Name | `${Name}[]`;
+
 /**
  * Input schema definition for routes
  */
-export interface InputSchema {
-  body?: SchemaType;
-  headers?: SchemaType;
-  query?: SchemaType;
-  params?: SchemaType;
-  cookie?: SchemaType;
-  response?: ResponseSchema;
+export interface InputSchema<Models extends string = string> {
+  body?: SchemaType | ModelRef<Models>;
+  headers?: SchemaType | ModelRef<Models>;
+  query?: SchemaType | ModelRef<Models>;
+  params?: SchemaType | ModelRef<Models>;
+  cookie?: SchemaType | ModelRef<Models>;
+  response?: ResponseSchema | SchemaType | ModelRef<Models>;
+}
+
+/**
+ * Per-route overrides of the server's request limits
+ */
+export interface RouteLimits {
+  /** Largest request body in bytes, larger ones are answered with 413 */
+  maxRequestSize?: number;
+  /**
+   * Milliseconds to read the request and start the response, answered with
+   * 408 or 504 when exceeded
+   */
+  timeout?: number;
 }
 
 /**
@@ -262,9 +287,58 @@ export type HTTPMethod =
 // ============================================================================
 
 /**
- * Unwrap a schema type to its TypeScript type
+ * Unwrap a schema type (or a model reference) to its TypeScript type
  */
-export type UnwrapSchema<T> = T extends SchemaType ? InferType<T> : unknown;
+export type UnwrapSchema<
+  T,
+  Models extends Record<string, SchemaType> = Record<never, never>,
+> = T extends SchemaType
+  ? InferType<T>
+  : T extends `${infer Name}[]`
+    ? Name extends keyof Models
+      ? InferType<Models[Name]>[]
+      : unknown
+    : T extends keyof Models
+      ? InferType<Models[T]>
+      : unknown;
+
+/**
+ * Unwrap a response schema to response types by status code
+ * A single schema describes the 200 response
+ */
+export type UnwrapResponseSchema<
+  Response,
+  Models extends Record<string, SchemaType> = Record<never, never>,
+> = Response extends string | SchemaType
+  ? { 200: UnwrapSchema<Response, Models> }
+  : Response extends ResponseSchema
+    ? { [Status in keyof Response]: UnwrapSchema<Response[Status], Models> }
+    : unknown;
+
+/**
+ * Responses by status code produced by a handler: values returned with
+ * `status()` under their code, anything else as the 200 response
+ */
+export type ReturnResponse<Return> = ([
+  Exclude<Return, StatusResponse>,
+] extends [never]
+  ? Record<never, never>
+  : { 200: Exclude<Return, StatusResponse> }) & {
+  [Code in Extract<Return, StatusResponse>["code"]]: Extract<
+    Return,
+    StatusResponse<Code>
+  >["response"];
+};
+
+/**
+ * Response types of a route by status code: the declared response schemas,
+ * completed by the statuses the handler returns
+ */
+export type RouteResponse<Response, Return> = Prettify<
+  unknown extends Response
+    ? ReturnResponse<Return>
+    : Omit<ReturnResponse<Return>, keyof Response> & Response
+>;
 
 /**
  * Unwrap an input schema to a route schema
@@ -272,17 +346,16 @@ export type UnwrapSchema<T> = T extends SchemaType ? InferType<T> : unknown;
 export type UnwrapInputSchema<
   Schema extends InputSchema,
   Path extends string = "",
+  Models extends Record<string, SchemaType> = Record<never, never>,
 > = {
-  body: UnwrapSchema<Schema["body"]>;
-  headers: UnwrapSchema<Schema["headers"]>;
-  query: UnwrapSchema<Schema["query"]>;
-  params: Schema["params"] extends SchemaType
-    ? UnwrapSchema<Schema["params"]>
+  body: UnwrapSchema<Schema["body"], Models>;
+  headers: UnwrapSchema<Schema["headers"], Models>;
+  query: UnwrapSchema<Schema["query"], Models>;
+  params: Schema["params"] extends SchemaType | string
+    ? UnwrapSchema<Schema["params"], Models>
     : ResolvePath<Path>;
-  cookie: UnwrapSchema<Schema["cookie"]>;
-  response: Schema["response"] extends ResponseSchema
-    ? Schema["response"]
-    : unknown;
+  cookie: UnwrapSchema<Schema["cookie"], Models>;
+  response: UnwrapResponseSchema<Schema["response"], Models>;
 };
 
 // ============================================================================
@@ -290,7 +363,21 @@ export type UnwrapInputSchema<
 // ============================================================================
 
 /**
- * Merge two route schemas, with B taking precedence
+ * Merge two object schemas field by field, fields of B taking precedence
+ */
+type MergeFields<A, B> = unknown extends B
+  ? A
+  : unknown extends A
+    ? B
+    : A extends object
+      ? B extends object
+        ? Prettify<Omit<A, keyof B> & B>
+        : B
+      : B;
+
+/**
+ * Merge two route schemas, with B taking precedence. Headers, query and
+ * cookie schemas are merged field by field
  */
 export type MergeSchema<
   A extends RouteSchema | InputSchema,
@@ -302,16 +389,11 @@ export type MergeSchema<
       ? AB
       : unknown
     : B["body"];
-  headers: unknown extends B["headers"]
-    ? A extends { headers: infer AH }
-      ? AH
-      : unknown
-    : B["headers"];
-  query: unknown extends B["query"]
-    ? A extends { query: infer AQ }
-      ? AQ
-      : unknown
-    : B["query"];
+  headers: MergeFields<
+    A extends { headers: infer AH } ? AH : unknown,
+    B["headers"]
+  >;
+  query: MergeFields<A extends { query: infer AQ } ? AQ : unknown, B["query"]>;
   params: {} extends (B extends { params: infer BP } ? BP : {})
     ? {} extends (A extends { params: infer AP } ? AP : {})
       ? ResolvePath<Path>
@@ -321,11 +403,10 @@ export type MergeSchema<
     : B extends { params: infer BP }
       ? BP
       : ResolvePath<Path>;
-  cookie: unknown extends B["cookie"]
-    ? A extends { cookie: infer AC }
-      ? AC
-      : unknown
-    : B["cookie"];
+  cookie: MergeFields<
+    A extends { cookie: infer AC } ? AC : unknown,
+    B["cookie"]
+  >;
   response: unknown extends B["response"]
     ? A extends { response: infer AR }
       ? AR
@@ -353,6 +434,93 @@ export interface PossibleResponse {
  */
 export type LifeCycleType = "global" | "local" | "scoped";
 
+/**
+ * Options accepted by lifecycle hook registration
+ */
+export interface HookOptions {
+  /**
+   * Scope of the hook, which applies to routes declared after it:
+   * - "local": routes of the instance that registered it, not those of its
+   *   groups and plugins
+   * - "scoped": also the instance that uses it as a plugin
+   * - "global": every instance it ends up in
+   *
+   * @default "local"
+   */
+  as?: LifeCycleType;
+}
+
+/**
+ * Registered hook along with its scope
+ */
+// biome-ignore lint/complexity/noBannedTypes: ...
+export interface HookContainer<Fn extends Function = Function> {
+  fn: Fn;
+  scope: LifeCycleType;
+}
+
+/**
+ * Registered hooks by lifecycle stage, in execution order
+ */
+export interface LifeCycleStore {
+  request: HookContainer[];
+  derive: HookContainer[];
+  transform: HookContainer[];
+  resolve: HookContainer[];
+  beforeHandle: HookContainer[];
+  afterHandle: HookContainer[];
+  mapResponse: HookContainer[];
+  afterResponse: HookContainer[];
+  error: HookContainer[];
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+/**
+ * Error code used when a thrown error is not registered via .error()
+ */
+export type BuiltinErrorCode = "UNKNOWN";
+
+/**
+ * Constructor of an error class that can be registered via .error()
+ */
+export type ErrorConstructorLike = new (...args: never[]) => Error;
+
+/**
+ * Response body sent for errors that no onError hook handled
+ */
+export interface ErrorResponse<Code extends string = string> {
+  error: Code;
+  message: string;
+}
+
+/**
+ * Discriminated union of error codes and the errors they identify
+ */
+export type ErrorUnion<Errors extends Record<string, Error>> =
+  | {
+      [K in keyof Errors]: { code: K; error: Errors[K] };
+    }[keyof Errors]
+  | { code: BuiltinErrorCode; error: Error };
+
+/**
+ * Status code of a registered error (its literal `status` field, or 500)
+ */
+type ErrorStatus<E> = E extends { status: infer S extends number }
+  ? number extends S
+    ? 500
+    : S
+  : 500;
+
+/**
+ * Error responses by status code for registered errors
+ */
+export type ErrorResponseSchema<Errors extends Record<string, Error>> = {
+  [K in keyof Errors as ErrorStatus<Errors[K]>]: ErrorResponse<K & string>;
+};
+
 // ============================================================================
 // Context Types
 // ============================================================================
@@ -366,13 +534,21 @@ export interface BaseContext {
    */
   request: Request;
   /**
-   * Set response properties
+   * Set response properties, applied when the returned value is sent
    */
   set: {
     headers: Record<string, string | number>;
     status?: number;
+    /**
+     * Redirect target, sent with `status` or 302
+     */
     redirect?: string;
   };
+  /**
+   * Return a response with a status code, recorded in the route's
+   * response types
+   */
+  status: typeof status;
   /**
    * Request path
    */
@@ -397,7 +573,7 @@ export type Context<
       ? Record<string, string | undefined>
       : Route["query"];
     params: Route["params"] extends undefined
-      ? Path extends `${string}/:${string}`
+      ? Path extends PathParameterLike
         ? ResolvePath<Path & string>
         : Record<string, string>
       : Route["params"];
@@ -437,7 +613,8 @@ export type InlineHandler<
   Route extends RouteSchema = EmptyRouteSchema,
   Singleton extends SingletonBase = EmptySingleton,
   Path extends string | undefined = undefined,
-> = (context: Context<Route, Singleton, Path>) => MaybePromise<unknown>;
+  Return = unknown,
+> = (context: Context<Route, Singleton, Path>) => MaybePromise<Return>;
 
 /**
  * Optional handler (for beforeHandle, etc.) that can return void
@@ -446,7 +623,7 @@ export type OptionalHandler<
   Route extends RouteSchema = EmptyRouteSchema,
   Singleton extends SingletonBase = EmptySingleton,
   Path extends string | undefined = undefined,
-> = (context: Context<Route, Singleton, Path>) => MaybePromise<unknown | void>;
+> = (context: Context<Route, Singleton, Path>) => MaybePromise<unknown>;
 
 /**
  * Transform handler that returns void
@@ -457,6 +634,72 @@ export type TransformHandler<
   Path extends string | undefined = undefined,
 > = (context: Context<Route, Singleton, Path>) => MaybePromise<void>;
 
+/**
+ * Context available before derive and validation (onRequest)
+ */
+export type PreContext<Singleton extends SingletonBase = EmptySingleton> =
+  Prettify<
+    BaseContext & {
+      store: Singleton["store"];
+    } & Singleton["decorator"]
+  >;
+
+/**
+ * Request handler (onRequest) that can return a value to skip the route
+ */
+export type PreHandler<Singleton extends SingletonBase = EmptySingleton> = (
+  context: PreContext<Singleton>,
+) => MaybePromise<unknown>;
+
+/**
+ * Context passed to hooks that run after the route handler
+ */
+export type AfterContext<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+> = Prettify<
+  Context<Route, Singleton> & {
+    /**
+     * Value returned by the handler (or by a previous hook)
+     */
+    response: unknown;
+  }
+>;
+
+/**
+ * After handler (afterHandle, mapResponse) that can replace the response
+ */
+export type AfterHandler<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+> = (context: AfterContext<Route, Singleton>) => MaybePromise<unknown>;
+
+/**
+ * After response handler that runs once the response has been sent
+ */
+export type AfterResponseHandler<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+> = (context: AfterContext<Route, Singleton>) => MaybePromise<void>;
+
+/**
+ * Context passed to onError hooks
+ */
+export type ErrorContext<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Errors extends Record<string, Error> = Record<never, never>,
+> = Prettify<Context<Route, Singleton> & ErrorUnion<Errors>>;
+
+/**
+ * Error handler that can map an error to a response
+ */
+export type ErrorHandler<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Errors extends Record<string, Error> = Record<never, never>,
+> = (context: ErrorContext<Route, Singleton, Errors>) => MaybePromise<unknown>;
+
 /**
  * Derive handler that returns new context properties
  */
@@ -474,3 +717,183 @@ export type ResolveHandler<
   Singleton extends SingletonBase = EmptySingleton,
   Resolved extends Record<string, unknown> = Record<string, unknown>,
 > = (context: Context<Route, Singleton>) => MaybePromise<Resolved>;
+
+// ============================================================================
+// WebSocket Types
+// ============================================================================
+
+/**
+ * Message received by a WebSocket route: its `body` schema, or the raw
+ * text or binary data
+ */
+export type WebSocketMessage<Route extends RouteSchema = EmptyRouteSchema> =
+  unknown extends Route["body"] ? string | Buffer : Route["body"];
+
+/**
+ * Message sent by a WebSocket route: its 200 `response` schema, if any
+ */
+export type WebSocketData<Route extends RouteSchema = EmptyRouteSchema> =
+  Route["response"] extends { 200: infer Data } ? Data : unknown;
+
+/**
+ * Socket passed to the handlers of a WebSocket route
+ */
+export interface KitoWS<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Path extends string | undefined = undefined,
+> {
+  /**
+   * Identifier of the connection, unique within the process
+   */
+  readonly id: number;
+  /**
+   * Context of the upgrade request, with derived and resolved values
+   */
+  readonly data: Omit<Context<Route, Singleton, Path>, "body" | "set">;
+  /**
+   * Send strings as text, buffers as binary and anything else as JSON.
+   * Returns `false` under backpressure: wait for `drain` before sending more
+   */
+  send(data: WebSocketData<Route> | string | Buffer): boolean;
+  ping(data?: string | Buffer): void;
+  pong(data?: string | Buffer): void;
+  close(code?: number, reason?: string): void;
+  /**
+   * Receive the messages published to `topic` until unsubscribed
+   */
+  subscribe(topic: string): void;
+  unsubscribe(topic: string): void;
+  isSubscribed(topic: string): boolean;
+  /**
+   * Send to every other socket subscribed to `topic`, returning the number
+   * of sockets the message was queued on
+   */
+  publish(topic: string, data: WebSocketData<Route> | string | Buffer): number;
+}
+
+/**
+ * Event handlers of a WebSocket route
+ */
+export interface WebSocketHandlers<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Path extends string | undefined = undefined,
+> {
+  open?: (ws: KitoWS<Route, Singleton, Path>) => MaybePromise<void>;
+  message?: (
+    ws: KitoWS<Route, Singleton, Path>,
+    message: WebSocketMessage<Route>,
+  ) => MaybePromise<void>;
+  close?: (
+    ws: KitoWS<Route, Singleton, Path>,
+    code: number,
+    reason: string,
+  ) => MaybePromise<void>;
+  drain?: (ws: KitoWS<Route, Singleton, Path>) => MaybePromise<void>;
+  ping?: (
+    ws: KitoWS<Route, Singleton, Path>,
+    data: Buffer,
+  ) => MaybePromise<void>;
+  pong?: (
+    ws: KitoWS<Route, Singleton, Path>,
+    data: Buffer,
+  ) => MaybePromise<void>;
+}
+
+/**
+ * Input schema along with socket event handlers, as accepted by ws()
+ */
+export type WebSocketSchema<Models extends string = string> =
+  InputSchema<Models> & {
+    [K in keyof WebSocketHandlers]?: unknown;
+  };
+
+/**
+ * Type a ws() argument: schema fields are kept as written (so they can be
+ * inferred) and event handlers receive the socket of the route
+ */
+export type WebSocketHook<
+  Schema extends WebSocketSchema,
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Path extends string | undefined = undefined,
+  Macros extends Record<string, unknown> = Record<never, never>,
+> = {
+  [K in keyof Schema]: K extends keyof InputSchema
+    ? Schema[K]
+    : K extends keyof WebSocketHandlers
+      ? WebSocketHandlers<Route, Singleton, Path>[K]
+      : K extends keyof Macros
+        ? Schema[K]
+        : never;
+};
+
+// ============================================================================
+// Guard Types
+// ============================================================================
+
+/**
+ * Hooks that apply to every route of a block (guard)
+ */
+export interface LocalHook<
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Errors extends Record<string, Error> = Record<never, never>,
+> {
+  transform?: MaybeArray<TransformHandler<Route, Singleton>>;
+  beforeHandle?: MaybeArray<OptionalHandler<Route, Singleton>>;
+  afterHandle?: MaybeArray<AfterHandler<Route, Singleton>>;
+  mapResponse?: MaybeArray<AfterHandler<Route, Singleton>>;
+  afterResponse?: MaybeArray<AfterResponseHandler<Route, Singleton>>;
+  error?: MaybeArray<ErrorHandler<Route, Singleton, Errors>>;
+}
+
+/**
+ * Input schema along with local hooks, as accepted by guard()
+ */
+export type GuardSchema<Models extends string = string> =
+  InputSchema<Models> & {
+    [K in keyof LocalHook]?: unknown;
+  };
+
+/**
+ * Type a guard() argument: schema fields are kept as written (so they can
+ * be inferred) and hooks receive the route schema they guard
+ */
+export type GuardHook<
+  Schema extends GuardSchema,
+  Route extends RouteSchema = EmptyRouteSchema,
+  Singleton extends SingletonBase = EmptySingleton,
+  Errors extends Record<string, Error> = Record<never, never>,
+  Macros extends Record<string, unknown> = Record<never, never>,
+> = {
+  [K in keyof Schema]: K extends keyof InputSchema
+    ? Schema[K]
+    : K extends keyof LocalHook
+      ? LocalHook<Route, Singleton, Errors>[K]
+      : K extends keyof Macros
+        ? Schema[K]
+        : never;
+};
+
+// ============================================================================
+// Macro Types
+// ============================================================================
+
+/**
+ * Macro that turns the value of a route option into hooks for that route
+ */
+export type Macro<
+  Value = never,
+  Singleton extends SingletonBase = EmptySingleton,
+> = (value: Value) => LocalHook<UnknownRouteSchema, Singleton> | undefined;
+
+/**
+ * Route options enabled by registered macros, typed by their argument
+ */
+export type MacroOptions<Macros extends Record<string, unknown>> = {
+  [K in keyof Macros]?: Macros[K] extends (value: infer Value) => unknown
+    ? Value
+    : never;
+};
@@ -8,12 +8,20 @@ import type {
   HTTPMethod,
   PossibleResponse,
   InputSchema,
+  LifeCycleStore,
 } from "./base";
 
 // ============================================================================
 // Route Path Types
 // ============================================================================
 
+/**
+ * Methods a route is registered for, `ALL` standing for every method
+ */
+export type ExpandMethod<Method extends HTTPMethod> = Method extends "ALL"
+  ? Exclude<HTTPMethod, "ALL">
+  : Method;
+
 /**
  * Create a nested route object from a path
  * @example CreateRoute<'/users/:id', 'GET', Schema> creates:
@@ -27,7 +35,7 @@ export type CreateRoute<
 > = CreateRoutePath<
   Path,
   {
-    [M in Method as Lowercase<M>]: {
+    [M in ExpandMethod<Method> as Lowercase<M>]: {
       body: Schema["body"];
       params: IsNever<keyof Schema["params"]> extends true
         ? ResolvePath<Path>
@@ -39,6 +47,28 @@ export type CreateRoute<
   }
 >;
 
+/**
+ * Create a nested route object for a WebSocket route, reached from the
+ * client with `subscribe()`
+ */
+export type CreateWebSocketRoute<
+  Path extends string,
+  Schema extends RouteSchema,
+> = CreateRoutePath<
+  Path,
+  {
+    subscribe: {
+      body: Schema["body"];
+      params: IsNever<keyof Schema["params"]> extends true
+        ? ResolvePath<Path>
+        : Schema["params"];
+      query: Schema["query"];
+      headers: Schema["headers"];
+      response: Schema["response"];
+    };
+  }
+>;
+
 /**
  * Recursively create nested path object
  */
@@ -64,10 +94,30 @@ export interface InternalRoute {
   method: HTTPMethod;
   path: string;
   handler: unknown;
-  hooks: unknown;
+  hooks: LifeCycleStore;
   schema?: InputSchema;
+  /**
+   * Whether `handler` is a mounted app answering every path below `path`
+   */
+  mount?: boolean;
+  /**
+   * Whether `handler` holds the event handlers of a WebSocket route
+   */
+  websocket?: boolean;
+  /**
+   * Whether `handler` answers requests that match no route
+   */
+  notFound?: boolean;
 }
 
+/**
+ * A fetch handler, or an app exposing `handle()` such as another `Kito`
+ * or `KitoServer` instance
+ */
+export type MountTarget =
+  | ((request: Request) => Response | Promise<Response>)
+  | { handle(request: Request): Promise<Response> };
+
 // ============================================================================
 // Route Merging Types
 // ============================================================================
@@ -68,8 +68,9 @@ type IsPathParameter<Part extends string> = Part extends `:${infer Parameter}`
   ? Parameter extends `${infer Name}?`
     ? never // Optional params handled separately
     : Parameter
-  : Part extends "*"
-    ? "*"
+  : Part extends `*${infer Name}`
+    ? // Catch-alls are exposed as `*`, named ones under their name too
+      "*" | (Name extends "" ? never : Name)
     : never;
 
 /**
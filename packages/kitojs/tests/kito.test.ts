@@ -0,0 +1,318 @@
+import { describe, it, expect } from "vitest";
+import { t } from "../src";
+import { kito } from "../src/server/kito";
+import { status } from "../src/helpers/status";
+
+const get = (path: string, init?: RequestInit) =>
+  new Request(`http://localhost${path}`, init);
+
+describe("Kito", () => {
+  describe("Handle", () => {
+    it("should send returned values", async () => {
+      const app = kito()
+        .get("/text", () => "hello")
+        .get("/json", () => ({ hello: "world" }))
+        .get("/users/:id", ({ params }) => params.id);
+
+      expect(await (await app.handle(get("/text"))).text()).toBe("hello");
+      expect(await (await app.handle(get("/json"))).json()).toEqual({
+        hello: "world",
+      });
+      expect(await (await app.handle(get("/users/7"))).text()).toBe("7");
+    });
+
+    it("should apply the status and headers from set", async () => {
+      const app = kito().post("/items", ({ set }) => {
+        set.status = 201;
+        set.headers["x-id"] = 1;
+        return "created";
+      });
+
+      const res = await app.handle(get("/items", { method: "POST" }));
+
+      expect(res.status).toBe(201);
+      expect(res.headers.get("x-id")).toBe("1");
+    });
+
+    it("should stream the body of a returned Response", async () => {
+      const encoder = new TextEncoder();
+      const app = kito().get(
+        "/stream",
+        () =>
+          new Response(
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(encoder.encode("hello "));
+                controller.enqueue(encoder.encode("world"));
+                controller.close();
+              },
+            }),
+            { status: 203, headers: { "content-type": "text/plain" } },
+          ),
+      );
+
+      const res = await app.handle(get("/stream"));
+
+      expect(res.status).toBe(203);
+      expect(res.headers.get("content-type")).toBe("text/plain");
+      expect(await res.text()).toBe("hello world");
+    });
+
+    it("should answer every method from all() after explicit routes", async () => {
+      const app = kito()
+        .all("/any", ({ request }) => `all ${request.method}`)
+        .get("/any", () => "get");
+
+      expect(await (await app.handle(get("/any"))).text()).toBe("get");
+      expect(
+        await (await app.handle(get("/any", { method: "PUT" }))).text(),
+      ).toBe("all PUT");
+    });
+
+    it("should return 404 for unknown routes", async () => {
+      const res = await kito().handle(get("/missing"));
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("Hooks", () => {
+    it("should run hooks around the handler in order", async () => {
+      const calls: string[] = [];
+      const app = kito()
+        .onRequest(() => {
+          calls.push("request");
+        })
+        .derive(() => ({ user: "kito" }))
+        .onBeforeHandle(() => {
+          calls.push("beforeHandle");
+        })
+        .onAfterHandle(({ response }) => ({ wrapped: response }))
+        .onAfterResponse(() => {
+          calls.push("afterResponse");
+        })
+        .get("/", ({ user }) => {
+          calls.push("handler");
+          return user;
+        });
+
+      const res = await app.handle(get("/"));
+
+      expect(await res.json()).toEqual({ wrapped: "kito" });
+      expect(calls).toEqual([
+        "request",
+        "beforeHandle",
+        "handler",
+        "afterResponse",
+      ]);
+    });
+
+    it("should only apply hooks to routes declared after them", async () => {
+      const app = kito()
+        .get("/before", () => "before")
+        .onAfterHandle(({ response }) => `hooked ${response}`)
+        .get("/after", () => "after");
+
+      expect(await (await app.handle(get("/before"))).text()).toBe("before");
+      expect(await (await app.handle(get("/after"))).text()).toBe(
+        "hooked after",
+      );
+    });
+
+    it("should keep local hooks out of plugin and group routes", async () => {
+      const calls: string[] = [];
+      const plugin = kito().get("/plugin", () => "plugin");
+      const app = kito()
+        .onBeforeHandle(() => {
+          calls.push("local");
+        })
+        .onBeforeHandle({ as: "global" }, () => {
+          calls.push("global");
+        })
+        .use(plugin)
+        .group("/v1", (app) => app.get("/grouped", () => "grouped"))
+        .get("/", () => "root");
+
+      await app.handle(get("/plugin"));
+      await app.handle(get("/v1/grouped"));
+      expect(calls).toEqual(["global", "global"]);
+
+      await app.handle(get("/"));
+      expect(calls).toEqual(["global", "global", "local", "global"]);
+    });
+
+    it("should run onRequest for requests that match no route", async () => {
+      const methods: string[] = [];
+      const app = kito()
+        .onRequest(({ request }) => {
+          methods.push(request.method);
+        })
+        .get("/items", () => "items");
+
+      const missing = await app.handle(get("/missing"));
+      const other = await app.handle(get("/items", { method: "PUT" }));
+
+      expect(missing.status).toBe(404);
+      expect(other.status).toBe(405);
+      expect(other.headers.get("allow")).toBe("GET, HEAD, OPTIONS");
+      expect(methods).toEqual(["GET", "PUT"]);
+    });
+
+    it("should skip the handler when beforeHandle returns", async () => {
+      const app = kito()
+        .onBeforeHandle(({ set }) => {
+          set.status = 401;
+          return { error: "Unauthorized" };
+        })
+        .get("/", () => "secret");
+
+      const res = await app.handle(get("/"));
+
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: "Unauthorized" });
+    });
+
+    it("should map thrown errors with onError", async () => {
+      const app = kito()
+        .onError(({ error }) => ({ failed: error.message }))
+        .get("/", () => {
+          throw new Error("boom");
+        });
+
+      const res = await app.handle(get("/"));
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toEqual({ failed: "boom" });
+    });
+  });
+
+  describe("Guard", () => {
+    it("should keep guard headers on routes declaring their own", async () => {
+      const app = kito().guard(
+        { headers: t.object({ authorization: t.str() }) },
+        (app) =>
+          app.get(
+            "/me",
+            { headers: t.object({ "x-client": t.str() }) },
+            ({ headers }) => headers.authorization,
+          ),
+      );
+
+      const missing = await app.handle(
+        new Request("http://localhost/me", { headers: { "x-client": "web" } }),
+      );
+      expect(missing.status).toBe(400);
+
+      const res = await app.handle(
+        new Request("http://localhost/me", {
+          headers: { authorization: "token", "x-client": "web" },
+        }),
+      );
+      expect(await res.text()).toBe("token");
+    });
+  });
+
+  describe("Macro", () => {
+    it("should apply the hooks of a macro used by a route", async () => {
+      const app = kito()
+        .macro({
+          role: (role: string) => ({
+            beforeHandle: ({ headers, set }) => {
+              if (headers["x-role"] !== role) {
+                set.status = 403;
+                return "Forbidden";
+              }
+            },
+          }),
+        })
+        .get("/admin", { role: "admin" }, () => "secret");
+
+      const denied = await app.handle(get("/admin"));
+      expect(denied.status).toBe(403);
+
+      const res = await app.handle(
+        get("/admin", { headers: { "x-role": "admin" } }),
+      );
+      expect(await res.text()).toBe("secret");
+    });
+  });
+
+  describe("Status", () => {
+    it("should send status() responses with their code", async () => {
+      const app = kito().get("/users/:id", ({ params }) =>
+        params.id === "0"
+          ? status(404, { message: "no user" })
+          : { id: params.id },
+      );
+
+      const missing = await app.handle(get("/users/0"));
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toEqual({ message: "no user" });
+
+      const found = await app.handle(get("/users/1"));
+      expect(found.status).toBe(200);
+    });
+  });
+
+  describe("Mount", () => {
+    it("should forward requests with the prefix stripped", async () => {
+      const app = kito().mount(
+        "/legacy",
+        (request) => new Response(new URL(request.url).pathname),
+      );
+
+      const res = await app.handle(get("/legacy/users"));
+
+      expect(await res.text()).toBe("/users");
+    });
+  });
+
+  describe("Group", () => {
+    it("should prefix the routes of a group", async () => {
+      const app = kito().group("/v1", (app) =>
+        app.get("/users", () => "users"),
+      );
+
+      expect(await (await app.handle(get("/v1/users"))).text()).toBe("users");
+      expect((await app.handle(get("/users"))).status).toBe(404);
+    });
+  });
+
+  describe("Use", () => {
+    it("should register the routes and hooks of a plugin", async () => {
+      const plugin = kito()
+        .derive(({ request }) => ({
+          token: request.headers.get("authorization"),
+        }))
+        .get("/plugin", ({ token }) => token ?? "none");
+
+      const app = kito()
+        .use(plugin)
+        .get("/", () => "root");
+
+      const res = await app.handle(
+        get("/plugin", { headers: { authorization: "abc" } }),
+      );
+      expect(await res.text()).toBe("abc");
+      expect(await (await app.handle(get("/"))).text()).toBe("root");
+    });
+  });
+
+  describe("Errors", () => {
+    it("should not keep the status and redirect set before throwing", async () => {
+      const app = kito().get("/fail", ({ set }) => {
+        set.status = 201;
+        set.redirect = "/elsewhere";
+        set.headers["x-partial"] = "1";
+        throw new Error("boom");
+      });
+
+      const res = await app.handle(new Request("http://localhost/fail"));
+
+      expect(res.status).toBe(500);
+      expect(res.headers.get("location")).toBeNull();
+      expect(res.headers.get("x-partial")).toBeNull();
+      expect(await res.json()).toEqual({ error: "UNKNOWN", message: "boom" });
+    });
+  });
+});
@@ -1,7 +1,20 @@
 // biome-ignore assist/source/organizeImports: ...
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { connect } from "node:http2";
+import { createConnection, createServer, type AddressInfo } from "node:net";
 import { server, middleware, schema, t } from "../src";
 
+// Port the OS hands out for port 0, released for the server under test
+const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const probe = createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
 describe("Server", () => {
   let app: ReturnType<typeof server>;
 
@@ -71,6 +84,17 @@ describe("Server", () => {
       }).not.toThrow();
     });
 
+    it("should register HEAD, OPTIONS and TRACE routes", () => {
+      expect(() => {
+        app
+          .head("/users", (ctx) => ctx.res.sendStatus(200))
+          .options("/users", (ctx) =>
+            ctx.res.header("allow", "GET").sendStatus(204),
+          )
+          .trace("/users", (ctx) => ctx.res.send("trace"));
+      }).not.toThrow();
+    });
+
     it("should register route with schema", () => {
       const userSchema = schema({
         params: t.object({ id: t.str().uuid() }),
@@ -196,5 +220,566 @@ describe("Server", () => {
     it("should have close method", () => {
       expect(typeof app.close).toBe("function");
     });
+
+    it("should resolve close when not listening", async () => {
+      await expect(app.close({ timeout: 100 })).resolves.toBeUndefined();
+    });
+
+    it("should resolve listen once closed", async () => {
+      const listening = app.listen({ port: 0, host: "127.0.0.1" }, () => {
+        app.close({ timeout: 100 });
+      });
+
+      await expect(listening).resolves.toMatchObject({ port: 0 });
+    });
+
+    it("should serve HTTP/2 with prior knowledge", async () => {
+      app.get("/listen/h2", (ctx) => ctx.res.send("h2"));
+
+      const port = await freePort();
+      await new Promise<void>((resolve) => {
+        app.listen({ port, host: "127.0.0.1" }, resolve);
+      });
+
+      const session = connect(`http://127.0.0.1:${port}`);
+      const body = await new Promise<string>((resolve, reject) => {
+        const stream = session.request({ ":path": "/listen/h2" });
+        let data = "";
+        stream.setEncoding("utf8");
+        stream.on("data", (chunk) => {
+          data += chunk;
+        });
+        stream.on("end", () => resolve(data));
+        stream.on("error", reject);
+      });
+      session.close();
+
+      expect(body).toBe("h2");
+      await app.close({ timeout: 100 });
+    });
+  });
+
+  describe("Handle", () => {
+    it("should dispatch a request without listening", async () => {
+      app.get("/handle/ping", (ctx) => {
+        ctx.res.header("x-handled", "1").send("pong");
+      });
+
+      const res = await app.handle(new Request("http://localhost/handle/ping"));
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-handled")).toBe("1");
+      expect(await res.text()).toBe("pong");
+    });
+
+    it("should validate the request body", async () => {
+      app.post(
+        "/handle/users",
+        [schema({ body: t.object({ name: t.str() }) })],
+        (ctx) => {
+          ctx.res.status(201).json({ name: ctx.req.body.name });
+        },
+      );
+
+      const created = await app.handle(
+        new Request("http://localhost/handle/users", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ name: "kito" }),
+        }),
+      );
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ name: "kito" });
+
+      const invalid = await app.handle(
+        new Request("http://localhost/handle/users", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ name: 1 }),
+        }),
+      );
+      expect(invalid.status).toBe(400);
+    });
+
+    it("should validate a route with only a cookie schema", async () => {
+      app.get(
+        "/handle/session",
+        [schema({ cookie: t.object({ session: t.str() }) })],
+        (ctx) => ctx.res.send("ok"),
+      );
+
+      const missing = await app.handle(
+        new Request("http://localhost/handle/session"),
+      );
+      expect(missing.status).toBe(400);
+
+      const res = await app.handle(
+        new Request("http://localhost/handle/session", {
+          headers: { cookie: "session=abc" },
+        }),
+      );
+      expect(res.status).toBe(200);
+    });
+
+    it("should validate a route with only a response schema", async () => {
+      app.get(
+        "/handle/user",
+        [schema({ response: { 200: t.object({ name: t.str() }) } })],
+        (ctx) => ctx.res.json({ name: 1 }),
+      );
+
+      const res = await app.handle(new Request("http://localhost/handle/user"));
+
+      expect(res.status).toBe(500);
+    });
+
+    it("should check a single response schema against the 200 response", async () => {
+      app.get(
+        "/handle/single",
+        [schema({ response: t.object({ name: t.str() }) })],
+        (ctx) => ctx.res.json({ name: 1 }),
+      );
+
+      const res = await app.handle(
+        new Request("http://localhost/handle/single"),
+      );
+
+      expect(res.status).toBe(500);
+    });
+
+    it("should check streamed responses against their schema", async () => {
+      app.get(
+        "/handle/streamed",
+        [schema({ response: { 200: t.object({ name: t.str() }) } })],
+        (ctx) => {
+          const stream = ctx.res.type("application/json").stream();
+          stream.write('{"name":');
+          stream.end("1}");
+        },
+      );
+
+      const res = await app.handle(
+        new Request("http://localhost/handle/streamed"),
+      );
+
+      expect(res.status).toBe(500);
+    });
+
+    it("should expose the request as a Fetch API Request", async () => {
+      app.post("/handle/echo", async (ctx) => {
+        const request = ctx.req.toRequest();
+        ctx.res.json({
+          method: request.method,
+          agent: request.headers.get("user-agent"),
+          body: await request.text(),
+        });
+      });
+
+      const res = await app.handle(
+        new Request("http://localhost/handle/echo", {
+          method: "POST",
+          headers: { "user-agent": "vitest" },
+          body: "hello",
+        }),
+      );
+
+      expect(await res.json()).toEqual({
+        method: "POST",
+        agent: "vitest",
+        body: "hello",
+      });
+    });
+
+    it("should resolve streamed responses before they end", async () => {
+      let end: () => void = () => {};
+      app.get("/handle/stream", (ctx) => {
+        const stream = ctx.res.stream();
+        stream.write("first");
+        end = () => stream.end("last");
+      });
+
+      const res = await app.handle(
+        new Request("http://localhost/handle/stream"),
+      );
+      const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+      const decoder = new TextDecoder();
+
+      const first = await reader.read();
+      expect(decoder.decode(first.value)).toBe("first");
+
+      end();
+      let rest = "";
+      for (
+        let chunk = await reader.read();
+        !chunk.done;
+        chunk = await reader.read()
+      ) {
+        rest += decoder.decode(chunk.value);
+      }
+      expect(rest).toBe("last");
+    });
+
+    it("should reject WebSocket upgrades", async () => {
+      app.ws("/handle/socket", {});
+
+      await expect(
+        app.handle(
+          new Request("http://localhost/handle/socket", {
+            headers: {
+              connection: "upgrade",
+              upgrade: "websocket",
+              "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+              "sec-websocket-version": "13",
+            },
+          }),
+        ),
+      ).rejects.toThrow("upgrades need a listening server");
+    });
+
+    it("should return 404 for unknown routes", async () => {
+      const res = await app.handle(
+        new Request("http://localhost/handle/missing"),
+      );
+
+      expect(res.status).toBe(404);
+    });
+
+    it("should keep routes separate between servers", async () => {
+      const other = server();
+      app.get("/isolated", (ctx) => ctx.res.send("app"));
+      other.get("/isolated", (ctx) => ctx.res.send("other"));
+
+      const res = await app.handle(new Request("http://localhost/isolated"));
+      const otherRes = await other.handle(
+        new Request("http://localhost/isolated"),
+      );
+
+      expect(await res.text()).toBe("app");
+      expect(await otherRes.text()).toBe("other");
+
+      other.close();
+    });
+  });
+
+  describe("Not Found", () => {
+    it("should answer 405 with the allowed methods", async () => {
+      app.get("/missing/users", (ctx) => ctx.res.send("list"));
+      app.post("/missing/users", (ctx) => ctx.res.send("create"));
+
+      const res = await app.handle(
+        new Request("http://localhost/missing/users", { method: "DELETE" }),
+      );
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("GET, HEAD, OPTIONS, POST");
+    });
+
+    it("should answer JSON when the client prefers it", async () => {
+      const res = await app.handle(
+        new Request("http://localhost/missing/nothing", {
+          headers: { accept: "application/json" },
+        }),
+      );
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({
+        error: "Not Found",
+        message: "Cannot GET /missing/nothing",
+      });
+    });
+
+    it("should run the notFound handler", async () => {
+      const fallback = server().notFound((ctx) => {
+        ctx.res.json({ path: ctx.req.pathname });
+      });
+
+      const res = await fallback.handle(
+        new Request("http://localhost/missing/page"),
+      );
+
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({ path: "/missing/page" });
+      fallback.close();
+    });
+
+    it("should run the notFound handler for other methods with 405", async () => {
+      const fallback = server()
+        .get("/missing/items", (ctx) => ctx.res.send("list"))
+        .notFound((ctx) => {
+          ctx.res.json({ allowed: ctx.req.allowedMethods });
+        });
+
+      const res = await fallback.handle(
+        new Request("http://localhost/missing/items", { method: "PUT" }),
+      );
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("GET, HEAD, OPTIONS");
+      expect(await res.json()).toEqual({ allowed: ["GET", "HEAD", "OPTIONS"] });
+      fallback.close();
+    });
+  });
+
+  describe("Automatic Methods", () => {
+    it("should answer HEAD from the GET route without a body", async () => {
+      app.get("/auto/page", (ctx) => {
+        ctx.res.header("x-page", "1").send("hello");
+      });
+
+      const res = await app.handle(
+        new Request("http://localhost/auto/page", { method: "HEAD" }),
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-page")).toBe("1");
+      expect(res.headers.get("content-length")).toBe("5");
+      expect(await res.text()).toBe("");
+    });
+
+    it("should answer OPTIONS with the allowed methods", async () => {
+      app.post("/auto/items", (ctx) => ctx.res.send("created"));
+
+      const res = await app.handle(
+        new Request("http://localhost/auto/items", { method: "OPTIONS" }),
+      );
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get("allow")).toBe("OPTIONS, POST");
+    });
+
+    it("should be disabled through the server options", async () => {
+      const manual = server({ autoHead: false, autoOptions: false });
+      manual.get("/auto/manual", (ctx) => ctx.res.send("ok"));
+
+      const head = await manual.handle(
+        new Request("http://localhost/auto/manual", { method: "HEAD" }),
+      );
+      expect(head.status).toBe(405);
+      expect(head.headers.get("allow")).toBe("GET");
+
+      manual.close();
+    });
+  });
+
+  describe("Limits", () => {
+    it("should answer 413 when the body exceeds maxRequestSize", async () => {
+      const limited = server({ maxRequestSize: 4 });
+      limited.post("/limits/upload", (ctx) => ctx.res.send("ok"));
+
+      const res = await limited.handle(
+        new Request("http://localhost/limits/upload", {
+          method: "POST",
+          body: "too large",
+        }),
+      );
+      expect(res.status).toBe(413);
+
+      limited.close();
+    });
+
+    it("should override the limits per route", async () => {
+      const limited = server({ maxRequestSize: 4 });
+      limited.post("/limits/large", [{ maxRequestSize: 1024 }], (ctx) =>
+        ctx.res.send("ok"),
+      );
+
+      const res = await limited.handle(
+        new Request("http://localhost/limits/large", {
+          method: "POST",
+          body: "large enough",
+        }),
+      );
+      expect(res.status).toBe(200);
+
+      limited.close();
+    });
+
+    it("should answer 504 and abort the handler when it is too slow", async () => {
+      const limited = server({ timeout: 20 });
+      let aborted: Promise<unknown> | undefined;
+      limited.get("/limits/slow", async (ctx) => {
+        const { signal } = ctx.req;
+        aborted = new Promise((resolve) => {
+          signal.addEventListener("abort", () => resolve(signal.reason));
+        });
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        ctx.res.send("late");
+      });
+
+      const res = await limited.handle(
+        new Request("http://localhost/limits/slow"),
+      );
+      expect(res.status).toBe(504);
+      expect(await aborted).toMatchObject({ name: "TimeoutError" });
+
+      limited.close();
+    });
+
+    it("should answer 408 when the request head is too slow", async () => {
+      const limited = server({ timeout: 50 });
+      limited.get("/limits/head", (ctx) => ctx.res.send("ok"));
+
+      const port = await freePort();
+      await new Promise<void>((resolve) => {
+        limited.listen({ port, host: "127.0.0.1" }, resolve);
+      });
+
+      const response = await new Promise<string>((resolve, reject) => {
+        const socket = createConnection(port, "127.0.0.1", () => {
+          socket.write("GET /limits/head HTTP/1.1\r\nHost: localhost\r\n");
+        });
+        let data = "";
+        socket.setEncoding("utf8");
+        socket.on("data", (chunk) => {
+          data += chunk;
+        });
+        socket.on("end", () => resolve(data));
+        socket.on("error", reject);
+      });
+
+      expect(response).toMatch(/^HTTP\/1\.1 408 /);
+      await limited.close({ timeout: 100 });
+    });
+  });
+
+  describe("Path Patterns", () => {
+    it("should expose named catch-alls as * and under their name", async () => {
+      app.get("/patterns/files/*rest", (ctx) => {
+        ctx.res.send(`[${ctx.req.params["*"]}|${ctx.req.params.rest}]`);
+      });
+
+      const nested = await app.handle(
+        new Request("http://localhost/patterns/files/a/b.txt"),
+      );
+      expect(await nested.text()).toBe("[a/b.txt|a/b.txt]");
+
+      const root = await app.handle(
+        new Request("http://localhost/patterns/files"),
+      );
+      expect(await root.text()).toBe("[|]");
+    });
+
+    it("should match paths with and without optional params", async () => {
+      app.get("/patterns/users/:id?", (ctx) => {
+        ctx.res.send(ctx.req.params.id ?? "all");
+      });
+
+      const one = await app.handle(
+        new Request("http://localhost/patterns/users/7"),
+      );
+      expect(await one.text()).toBe("7");
+
+      const all = await app.handle(
+        new Request("http://localhost/patterns/users"),
+      );
+      expect(await all.text()).toBe("all");
+    });
+  });
+
+  describe("Mount", () => {
+    it("should forward requests with the prefix stripped", async () => {
+      app.mount("/mount/legacy", (request) => {
+        const url = new URL(request.url);
+        return new Response(`${request.method} ${url.pathname}${url.search}`);
+      });
+
+      const nested = await app.handle(
+        new Request("http://localhost/mount/legacy/users?page=2", {
+          method: "DELETE",
+        }),
+      );
+      expect(await nested.text()).toBe("DELETE /users?page=2");
+
+      const root = await app.handle(
+        new Request("http://localhost/mount/legacy"),
+      );
+      expect(await root.text()).toBe("GET /");
+    });
+
+    it("should mount another server", async () => {
+      const admin = server().post("/users", (ctx) => {
+        ctx.res.status(201).send(ctx.req.toRequest().headers.get("x-id"));
+      });
+
+      app.mount("/mount/admin", admin);
+
+      const res = await app.handle(
+        new Request("http://localhost/mount/admin/users", {
+          method: "POST",
+          headers: { "x-id": "42" },
+        }),
+      );
+
+      expect(res.status).toBe(201);
+      expect(await res.text()).toBe("42");
+      admin.close();
+    });
+
+    it("should stream the mounted body without its encoding headers", async () => {
+      const encoder = new TextEncoder();
+      app.mount(
+        "/mount/stream",
+        () =>
+          new Response(
+            new ReadableStream({
+              start(controller) {
+                controller.enqueue(encoder.encode("hello "));
+                controller.enqueue(encoder.encode("world"));
+                controller.close();
+              },
+            }),
+            {
+              headers: {
+                "content-type": "text/plain",
+                "content-encoding": "gzip",
+                "content-length": "999",
+              },
+            },
+          ),
+      );
+
+      const res = await app.handle(
+        new Request("http://localhost/mount/stream"),
+      );
+
+      expect(res.headers.get("content-type")).toBe("text/plain");
+      expect(res.headers.get("content-encoding")).toBeNull();
+      expect(res.headers.get("content-length")).not.toBe("999");
+      expect(await res.text()).toBe("hello world");
+    });
+  });
+
+  describe("WebSocket", () => {
+    it("should register a WebSocket route", () => {
+      const result = app.ws("/ws/chat", {
+        schema: { body: t.object({ text: t.str() }) },
+        message: (ws, message) => {
+          ws.send({ echo: message.text });
+        },
+      });
+
+      expect(result).toBe(app);
+    });
+
+    it("should publish to no sockets without subscribers", () => {
+      expect(app.publish("ws:empty", { hello: "world" })).toBe(0);
+    });
+
+    it("should answer plain requests with 426", async () => {
+      app.ws("/ws/plain", {});
+
+      const res = await app.handle(new Request("http://localhost/ws/plain"));
+      expect(res.status).toBe(426);
+    });
+
+    it("should not answer HEAD requests from a WebSocket route", async () => {
+      app.ws("/ws/head", {});
+
+      const res = await app.handle(
+        new Request("http://localhost/ws/head", { method: "HEAD" }),
+      );
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("GET, OPTIONS");
+    });
   });
 });
@@ -4,6 +4,7 @@ import { describe, expectTypeOf, it } from "vitest";
 import { server, schema, t, type Context } from "../src";
 // Import new type-safe kito directly to avoid kito-core dependency chain
 import { kito, Kito } from "../src/server/kito";
+import { status } from "../src/helpers/status";
 import type {
   ResolvePath,
   GetPathParameter,
@@ -180,6 +181,18 @@ describe("Path Parameter Extraction Types", () => {
     expectTypeOf<GetPathParameter<"/files/*">>().toEqualTypeOf<"*">();
   });
 
+  it("should expose named catch-alls as wildcard and under their name", () => {
+    expectTypeOf<GetPathParameter<"/files/*rest">>().toEqualTypeOf<
+      "*" | "rest"
+    >();
+  });
+
+  it("should resolve optional parameters", () => {
+    expectTypeOf<ResolvePath<"/users/:id?">>().toEqualTypeOf<{
+      id?: string;
+    }>();
+  });
+
   it("should resolve path to params object", () => {
     expectTypeOf<ResolvePath<"/users/:id">>().toEqualTypeOf<{ id: string }>();
     expectTypeOf<ResolvePath<"/users/:userId/posts/:postId">>().toEqualTypeOf<{
@@ -380,3 +393,449 @@ describe("New Kito Class Type Safety", () => {
     });
   });
 });
+
+describe("Kito Error Types", () => {
+  class NotFoundError extends Error {
+    readonly status = 404;
+  }
+
+  class ConflictError extends Error {}
+
+  it("should register error types in definitions", () => {
+    const app = kito().error({
+      NotFound: NotFoundError,
+      Conflict: ConflictError,
+    });
+
+    type Errors = (typeof app)["~Definitions"]["error"];
+    expectTypeOf<Errors["NotFound"]>().toEqualTypeOf<NotFoundError>();
+    expectTypeOf<Errors["Conflict"]>().toEqualTypeOf<ConflictError>();
+  });
+
+  it("should narrow errors by code in onError", () => {
+    kito()
+      .error({ NotFound: NotFoundError })
+      .onError(({ code, error, set }) => {
+        expectTypeOf(code).toEqualTypeOf<"NotFound" | "UNKNOWN">();
+        expectTypeOf(set.status).toEqualTypeOf<number | undefined>();
+
+        if (code === "NotFound") {
+          expectTypeOf(error).toEqualTypeOf<NotFoundError>();
+        }
+      });
+  });
+
+  it("should add error responses to routes", () => {
+    const app = kito()
+      .error({ NotFound: NotFoundError, Conflict: ConflictError })
+      .get("/users/:id", ({ params }) => ({ id: params.id }));
+
+    type Response = (typeof app)["~Routes"]["users"][":id"]["get"]["response"];
+    expectTypeOf<Response[404]>().toEqualTypeOf<{
+      error: "NotFound";
+      message: string;
+    }>();
+    expectTypeOf<Response[500]>().toEqualTypeOf<{
+      error: "Conflict";
+      message: string;
+    }>();
+  });
+});
+
+describe("Kito Lifecycle Hook Types", () => {
+  it("should type hook contexts with singleton state", () => {
+    kito()
+      .state("requests", 0)
+      .derive(() => ({ userId: "1" }))
+      .onRequest(({ store, set }) => {
+        expectTypeOf(store.requests).toBeNumber();
+        expectTypeOf(set.headers).toEqualTypeOf<
+          Record<string, string | number>
+        >();
+      })
+      .onBeforeHandle(({ userId }) => {
+        expectTypeOf(userId).toBeString();
+      })
+      .onAfterHandle(({ response }) => {
+        expectTypeOf(response).toBeUnknown();
+      })
+      .mapResponse({ as: "global" }, ({ response }) => response)
+      .onAfterResponse({ as: "scoped" }, ({ path }) => {
+        expectTypeOf(path).toBeString();
+      });
+  });
+
+  it("should reject unknown hook scopes", () => {
+    // @ts-expect-error - "plugin" is not a LifeCycleType
+    kito().onTransform({ as: "plugin" }, () => {});
+  });
+});
+
+describe("Kito Plugin Types", () => {
+  class ForbiddenError extends Error {
+    readonly status = 403;
+  }
+
+  it("should merge plugin routes under the parent prefix", () => {
+    const users = kito({ prefix: "/users", name: "users" }).get(
+      "/:id",
+      ({ params }) => ({ id: params.id }),
+    );
+    const app = kito({ prefix: "/api" }).use(users);
+
+    type Route = (typeof app)["~Routes"]["api"]["users"][":id"]["get"];
+    expectTypeOf<Route["params"]>().toEqualTypeOf<{ id: string }>();
+  });
+
+  it("should merge plugin decorators and errors", () => {
+    const auth = kito()
+      .decorate("version", 1)
+      .error({ Forbidden: ForbiddenError });
+
+    kito()
+      .use(auth)
+      .onError(({ code, version }) => {
+        expectTypeOf(code).toEqualTypeOf<"Forbidden" | "UNKNOWN">();
+        expectTypeOf(version).toEqualTypeOf<1>();
+      });
+  });
+});
+
+describe("Kito Group Types", () => {
+  it("should prefix group routes", () => {
+    const app = kito().group("/v1", (app) =>
+      app
+        .get("/users", () => [])
+        .group("/admin", (app) =>
+          app.get("/users/:id", ({ params }) => {
+            expectTypeOf(params).toEqualTypeOf<{ id: string }>();
+            return { id: params.id };
+          }),
+        ),
+    );
+
+    type Routes = (typeof app)["~Routes"];
+    expectTypeOf<Routes["v1"]["users"]>().toHaveProperty("get");
+    expectTypeOf<
+      Routes["v1"]["admin"]["users"][":id"]["get"]["params"]
+    >().toEqualTypeOf<{ id: string }>();
+  });
+
+  it("should keep the constructor prefix", () => {
+    const app = kito({ prefix: "/api" }).group("/v1", (app) =>
+      app.get("/health", () => "ok"),
+    );
+
+    expectTypeOf<(typeof app)["~Routes"]["api"]["v1"]>().toHaveProperty(
+      "health",
+    );
+  });
+});
+
+describe("Kito Guard Types", () => {
+  it("should merge guard schemas into routes", () => {
+    const app = kito().guard(
+      {
+        headers: t.object({ authorization: t.str() }),
+        beforeHandle: ({ headers }) => {
+          expectTypeOf(headers.authorization).toBeString();
+        },
+      },
+      (app) =>
+        app
+          .get("/me", ({ headers }) => {
+            expectTypeOf(headers.authorization).toBeString();
+            return headers.authorization;
+          })
+          .post(
+            "/posts",
+            { body: t.object({ title: t.str() }) },
+            ({ body, headers }) => {
+              expectTypeOf(body.title).toBeString();
+              expectTypeOf(headers.authorization).toBeString();
+              return body;
+            },
+          ),
+    );
+
+    type Routes = (typeof app)["~Routes"];
+    expectTypeOf<Routes["me"]["get"]["headers"]>().toEqualTypeOf<{
+      authorization: string;
+    }>();
+    expectTypeOf<Routes["posts"]["post"]["body"]>().toEqualTypeOf<{
+      title: string;
+    }>();
+  });
+
+  it("should merge guard and route headers field by field", () => {
+    kito().guard({ headers: t.object({ authorization: t.str() }) }, (app) =>
+      app.get(
+        "/me",
+        { headers: t.object({ "x-client": t.str() }) },
+        ({ headers }) => {
+          expectTypeOf(headers).toEqualTypeOf<{
+            authorization: string;
+            "x-client": string;
+          }>();
+        },
+      ),
+    );
+  });
+
+  it("should let route schemas override guard schemas", () => {
+    kito().guard({ query: t.object({ page: t.str() }) }, (app) =>
+      app.get("/items", { query: t.object({ page: t.num() }) }, ({ query }) => {
+        expectTypeOf(query.page).toBeNumber();
+      }),
+    );
+  });
+});
+
+describe("Kito Model Types", () => {
+  const User = t.object({ name: t.str(), age: t.num() });
+
+  it("should register models in definitions", () => {
+    const app = kito().model({ User });
+
+    type Schemas = (typeof app)["~Definitions"]["schemas"];
+    expectTypeOf<Schemas["User"]>().toEqualTypeOf<typeof User>();
+  });
+
+  it("should resolve model references in routes", () => {
+    const app = kito()
+      .model({ User })
+      .post("/users", { body: "User", response: "User[]" }, ({ body }) => {
+        expectTypeOf(body).toEqualTypeOf<{ name: string; age: number }>();
+        return [body];
+      });
+
+    type Route = (typeof app)["~Routes"]["users"]["post"];
+    expectTypeOf<Route["body"]>().toEqualTypeOf<{
+      name: string;
+      age: number;
+    }>();
+  });
+
+  it("should reject unknown model names", () => {
+    kito()
+      .model({ User })
+      // @ts-expect-error - "Post" is not a registered model
+      .post("/posts", { body: "Post" }, () => "ok");
+  });
+});
+
+describe("Kito Macro Types", () => {
+  const app = kito().macro({
+    auth: (roles: string[]) => ({
+      beforeHandle: ({ headers }) => {
+        expectTypeOf(headers).toEqualTypeOf<{
+          [name: string]: string | undefined;
+        }>();
+        if (!roles.length) return "Forbidden";
+      },
+    }),
+    cache: (seconds: number) => ({
+      afterHandle: ({ set }) => {
+        set.headers["cache-control"] = `max-age=${seconds}`;
+      },
+    }),
+  });
+
+  it("should accept typed macro options on routes", () => {
+    app
+      .get("/admin", { auth: ["admin"], cache: 60 }, () => "ok")
+      .guard({ auth: ["editor"] }, (app) => app.get("/posts", () => []));
+  });
+
+  it("should reject invalid macro options", () => {
+    // @ts-expect-error - auth expects a list of roles
+    app.get("/admin", { auth: "admin" }, () => "ok");
+    // @ts-expect-error - cache expects a number of seconds
+    app.guard({ cache: "1m" }, (app) => app);
+  });
+});
+
+describe("Kito Response Schema Types", () => {
+  it("should use declared statuses for the route response", () => {
+    const app = kito().get(
+      "/users/:id",
+      {
+        response: {
+          200: t.object({ id: t.str() }),
+          404: t.object({ message: t.str() }),
+        },
+      },
+      ({ params }) => ({ id: params.id }),
+    );
+
+    type Response = (typeof app)["~Routes"]["users"][":id"]["get"]["response"];
+    expectTypeOf<Response[200]>().toEqualTypeOf<{ id: string }>();
+    expectTypeOf<Response[404]>().toEqualTypeOf<{ message: string }>();
+  });
+
+  it("should treat a single response schema as the 200 response", () => {
+    const app = kito().get("/health", { response: t.str() }, () => "ok");
+
+    type Response = (typeof app)["~Routes"]["health"]["get"]["response"];
+    expectTypeOf<Response[200]>().toEqualTypeOf<string>();
+  });
+});
+
+describe("Kito Cookie Types", () => {
+  it("should type ctx.cookie from the cookie schema", () => {
+    kito().get(
+      "/me",
+      { cookie: t.object({ session: t.str().uuid() }) },
+      ({ cookie }) => {
+        expectTypeOf(cookie).toEqualTypeOf<{ session: string }>();
+        return cookie.session;
+      },
+    );
+  });
+});
+
+describe("Kito Wildcard Types", () => {
+  it("should type wildcard and optional params in handlers", () => {
+    kito()
+      .get("/files/*", ({ params }) => {
+        expectTypeOf(params).toEqualTypeOf<{ "*": string }>();
+      })
+      .get("/users/:id?", ({ params }) => {
+        expectTypeOf(params).toEqualTypeOf<{ id?: string }>();
+      });
+  });
+});
+
+describe("Kito Status Types", () => {
+  it("should record status() responses in the route response map", () => {
+    const app = kito().get("/users/:id", ({ params, status }) => {
+      if (params.id === "0") return status(404, { message: "no user" });
+      return { id: params.id };
+    });
+
+    type Response = (typeof app)["~Routes"]["users"][":id"]["get"]["response"];
+    expectTypeOf<Response[200]>().toEqualTypeOf<{ id: string }>();
+    expectTypeOf<Response[404]>().toEqualTypeOf<{ message: string }>();
+  });
+
+  it("should add returned statuses to declared responses", () => {
+    const app = kito().post(
+      "/users",
+      { response: t.object({ id: t.str() }) },
+      () => status(409, "exists"),
+    );
+
+    type Response = (typeof app)["~Routes"]["users"]["post"]["response"];
+    expectTypeOf<Response[200]>().toEqualTypeOf<{ id: string }>();
+    expectTypeOf<Response[409]>().toEqualTypeOf<string>();
+  });
+});
+
+describe("Kito Method Types", () => {
+  it("should record head, options and trace routes", () => {
+    const app = kito()
+      .head("/files/:id", ({ params }) => {
+        expectTypeOf(params).toEqualTypeOf<{ id: string }>();
+      })
+      .options("/files", () => "GET, HEAD")
+      .trace("/debug", () => "trace");
+
+    type Routes = (typeof app)["~Routes"];
+    expectTypeOf<Routes["files"][":id"]>().toHaveProperty("head");
+    expectTypeOf<Routes["files"]["options"]["response"][200]>().toBeString();
+    expectTypeOf<Routes["debug"]>().toHaveProperty("trace");
+  });
+
+  it("should record the method passed to route()", () => {
+    const app = kito().route("PUT", "/users/:id", ({ params }) => ({
+      id: params.id,
+    }));
+
+    type Route = (typeof app)["~Routes"]["users"][":id"]["put"];
+    expectTypeOf<Route["response"][200]>().toEqualTypeOf<{ id: string }>();
+  });
+
+  it("should record every method for all()", () => {
+    const app = kito().all("/health", () => "ok");
+
+    type Route = (typeof app)["~Routes"]["health"];
+    expectTypeOf<keyof Route>().toEqualTypeOf<
+      "get" | "post" | "put" | "delete" | "patch" | "head" | "options" | "trace"
+    >();
+  });
+});
+
+describe("Kito WebSocket Types", () => {
+  it("should type messages, sent data and the upgrade context", () => {
+    kito()
+      .state("room", "main")
+      .ws("/chat/:room", {
+        body: t.object({ text: t.str() }),
+        response: t.object({ text: t.str(), room: t.str() }),
+        message(ws, message) {
+          expectTypeOf(message).toEqualTypeOf<{ text: string }>();
+          expectTypeOf(ws.data.params).toEqualTypeOf<{ room: string }>();
+          expectTypeOf(ws.data.store.room).toBeString();
+          ws.send({ text: message.text, room: ws.data.params.room });
+        },
+      });
+  });
+
+  it("should type messages published to a topic", () => {
+    const app = kito().ws("/prices", {
+      response: t.object({ price: t.num() }),
+      open(ws) {
+        ws.subscribe("prices");
+        ws.publish("prices", { price: 1 });
+        // @ts-expect-error - must match the response schema
+        ws.publish("prices", { price: "1" });
+      },
+    });
+
+    expectTypeOf(app.publish("prices", { price: 2 })).toBeNumber();
+  });
+
+  it("should receive raw data without a body schema", () => {
+    kito().ws("/raw", {
+      message(_ws, message) {
+        expectTypeOf(message).toEqualTypeOf<string | Buffer>();
+      },
+    });
+  });
+
+  it("should record the route for subscribe()", () => {
+    const app = kito().ws("/chat", {
+      body: t.object({ text: t.str() }),
+      query: t.object({ name: t.str() }),
+    });
+
+    type Route = (typeof app)["~Routes"]["chat"]["subscribe"];
+    expectTypeOf<Route["body"]>().toEqualTypeOf<{ text: string }>();
+    expectTypeOf<Route["query"]>().toEqualTypeOf<{ name: string }>();
+  });
+});
+
+describe("Kito Route Limit Types", () => {
+  it("should accept limits along with the route schema", () => {
+    const app = kito().post(
+      "/uploads",
+      {
+        body: t.object({ name: t.str() }),
+        maxRequestSize: 1024 * 1024,
+        timeout: 5000,
+      },
+      ({ body }) => {
+        expectTypeOf(body).toEqualTypeOf<{ name: string }>();
+        return body.name;
+      },
+    );
+
+    type Route = (typeof app)["~Routes"]["uploads"]["post"];
+    expectTypeOf<Route["body"]>().toEqualTypeOf<{ name: string }>();
+  });
+
+  it("should reject limits that are not numbers", () => {
+    // @ts-expect-error - must be a number of milliseconds
+    kito().get("/slow", { timeout: "5s" }, () => "ok");
+  });
+});
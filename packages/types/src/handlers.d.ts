@@ -10,3 +10,13 @@ export type MiddlewareHandler<TSchema = unknown, TExtensions = unknown> = (
 export type RouteHandler<TSchema extends SchemaDefinition, TExtensions> = (
   ctx: KitoContext<TSchema> & TExtensions,
 ) => void | Promise<void> | unknown | Promise<unknown>;
+
+export type FetchHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * A fetch handler, or an app exposing `handle()` such as another
+ * `KitoServer` or `Kito` instance
+ */
+export type MountTarget =
+  | FetchHandler
+  | { handle(request: Request): Promise<Response> };
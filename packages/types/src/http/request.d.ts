@@ -61,6 +61,11 @@ export interface KitoRequest {
   get secure(): boolean;
   get xhr(): boolean;
   get originalUrl(): string;
+  /**
+   * Methods with a route on this path, set when the not-found handler
+   * answers a method the path has no route for
+   */
+  get allowedMethods(): string[];
 
   header(name: CommonHeaderNames): string | undefined;
   header(name: string): string | undefined;
@@ -72,6 +77,17 @@ export interface KitoRequest {
   json<T = unknown>(): T;
   text(): string;
 
+  /**
+   * Aborted when the server stops waiting for the response, once the
+   * `timeout` runs out and the client was answered with 504
+   */
+  get signal(): AbortSignal;
+
+  /**
+   * The request as a Fetch API `Request`, built on first call
+   */
+  toRequest(): Request;
+
   get raw(): {
     body: Buffer;
     headers: RequestHeaders;
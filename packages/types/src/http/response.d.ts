@@ -33,6 +33,8 @@ export interface SSEWriter {
 }
 
 export interface KitoResponse<TResponseSchema = unknown> {
+  readonly headersSent: boolean;
+
   status(code: number): KitoResponse<TResponseSchema>;
   sendStatus(code: number): void;
 
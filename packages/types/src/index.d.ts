@@ -5,6 +5,7 @@ export * from "./context";
 export * from "./handlers";
 export * from "./routes";
 export * from "./server";
+export * from "./websocket";
 
 export * from "./schema/base";
 export * from "./schema/string";
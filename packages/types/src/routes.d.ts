@@ -148,5 +148,22 @@ export type RouteChain<TExtensions = {}> = {
     handler?: RouteHandler<TSchema, TExtensions>,
   ): RouteChain<TExtensions>;
 
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): RouteChain<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    middlewares: (MiddlewareDefinition | TSchema)[],
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): RouteChain<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    middlewaresOrHandler:
+      | (MiddlewareDefinition | TSchema)[]
+      | RouteHandler<TSchema, TExtensions>,
+    handler?: RouteHandler<TSchema, TExtensions>,
+  ): RouteChain<TExtensions>;
+
   end(): KitoServerInstance<TExtensions>;
 };
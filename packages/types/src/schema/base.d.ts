@@ -5,7 +5,14 @@ export interface SchemaDefinition {
   query?: SchemaType;
   body?: SchemaType;
   headers?: SchemaType;
-  response?: ResponseSchemaDefinition;
+  cookie?: SchemaType;
+  /** Schemas by status code, or a single schema for the 200 response */
+  response?: ResponseSchemaDefinition | SchemaType;
+  definitions?: Record<string, SchemaType>;
+  /** Overrides the server's `maxRequestSize` for this route */
+  maxRequestSize?: number;
+  /** Overrides the server's `timeout` for this route */
+  timeout?: number;
 }
 
 export interface ResponseSchemaDefinition {
@@ -23,6 +30,9 @@ export type InferSchemaRequest<T extends SchemaDefinition> = {
   headers: T["headers"] extends SchemaType
     ? InferType<T["headers"]>
     : RequestHeaders;
+  cookies: T["cookie"] extends SchemaType
+    ? InferType<T["cookie"]>
+    : Record<string, string>;
 };
 
 export interface SchemaType {
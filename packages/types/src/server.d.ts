@@ -1,15 +1,53 @@
-import type { MiddlewareHandler, RouteHandler } from "./handlers";
+import type { MiddlewareHandler, MountTarget, RouteHandler } from "./handlers";
 import type { MiddlewareDefinition, RouteChain } from "./routes";
 import type { SchemaDefinition } from "./schema/base";
+import type { WebSocketHandlers } from "./websocket";
 
 export interface ServerOptions {
   port?: number;
   host?: string;
   unixSocket?: string;
   trustProxy?: boolean;
+  /**
+   * Largest request body in bytes, larger ones are answered with 413
+   * (default: 10 MiB)
+   */
   maxRequestSize?: number;
+  /**
+   * Milliseconds to read a request and start its response. A slow body is
+   * answered with 408 and a slow handler with 504
+   */
   timeout?: number;
   reusePort?: boolean;
+  /**
+   * How a response that does not match its declared schema is handled:
+   * `"strict"` answers 500, `"warn"` logs the violation and sends it anyway
+   */
+  responseValidation?: "strict" | "warn";
+  /**
+   * Answer HEAD requests from the matching GET route, without the body
+   * (default: true)
+   */
+  autoHead?: boolean;
+  /**
+   * Answer OPTIONS requests with the allowed methods in `Allow`
+   * (default: true)
+   */
+  autoOptions?: boolean;
+  /**
+   * Close the server gracefully on SIGTERM and SIGINT, then re-raise the
+   * signal. A second signal while closing stops the process right away
+   * (default: false)
+   */
+  handleSignals?: boolean;
+}
+
+export interface CloseOptions {
+  /**
+   * Milliseconds to wait for open connections to finish before they are
+   * dropped (default: 10000)
+   */
+  timeout?: number;
 }
 
 // biome-ignore lint/complexity/noBannedTypes: ...
@@ -102,8 +140,52 @@ export interface KitoServerInstance<TExtensions = {}> {
     handler: RouteHandler<TSchema, TExtensions>,
   ): KitoServerInstance<TExtensions>;
 
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServerInstance<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  trace<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    middlewares: (MiddlewareDefinition | TSchema)[],
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServerInstance<TExtensions>;
+
+  /** Answers every method, routes for a specific method take priority */
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  all<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServerInstance<TExtensions>;
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  all<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    middlewares: (MiddlewareDefinition | TSchema)[],
+    handler: RouteHandler<TSchema, TExtensions>,
+  ): KitoServerInstance<TExtensions>;
+
   route(path: string): RouteChain<TExtensions>;
 
+  mount(path: string, target: MountTarget): KitoServerInstance<TExtensions>;
+
+  // biome-ignore lint/complexity/noBannedTypes: ...
+  ws<TSchema extends SchemaDefinition = {}>(
+    path: string,
+    handlers: WebSocketHandlers<TSchema>,
+  ): KitoServerInstance<TExtensions>;
+
+  /** Sends to every socket subscribed to `topic`, returning their count */
+  publish(topic: string, data: unknown): number;
+
+  /**
+   * Handles requests that match no route, with a default 404 status, or 405
+   * when the path has routes for other methods
+   */
+  notFound(
+    handler: RouteHandler<Record<never, never>, TExtensions>,
+  ): KitoServerInstance<TExtensions>;
+
   listen(callback?: () => void): Promise<ServerOptions>;
   listen(port?: number, callback?: () => void): Promise<ServerOptions>;
   listen(
@@ -113,5 +195,7 @@ export interface KitoServerInstance<TExtensions = {}> {
   ): Promise<ServerOptions>;
   listen(options: ServerOptions, callback?: () => void): Promise<ServerOptions>;
 
-  close(): void;
+  handle(request: Request): Promise<Response>;
+
+  close(options?: CloseOptions): Promise<void>;
 }
@@ -0,0 +1,65 @@
+import type { KitoRequest } from "./http/request";
+
+import type {
+  SchemaDefinition,
+  SchemaType,
+  InferType,
+  InferSchemaRequest,
+} from "./schema/base";
+
+/**
+ * Incoming message of a WebSocket route: the parsed `body` schema type,
+ * or the raw text or binary data
+ */
+// biome-ignore lint/complexity/noBannedTypes: ...
+export type WebSocketMessage<TSchema extends SchemaDefinition = {}> =
+  TSchema["body"] extends SchemaType
+    ? InferType<TSchema["body"]>
+    : string | Buffer;
+
+// biome-ignore lint/complexity/noBannedTypes: ...
+export interface KitoWebSocket<TSchema extends SchemaDefinition = {}> {
+  /** Identifier of the connection, unique within the process */
+  readonly id: number;
+  /** The upgrade request */
+  readonly req: KitoRequest & InferSchemaRequest<TSchema>;
+
+  /**
+   * Sends strings as text, buffers as binary and anything else as JSON.
+   * Returns `false` under backpressure: wait for `drain` before sending more.
+   */
+  send(data: unknown): boolean;
+  ping(data?: string | Buffer): void;
+  pong(data?: string | Buffer): void;
+  close(code?: number, reason?: string): void;
+
+  /** Receives the messages published to `topic` until unsubscribed */
+  subscribe(topic: string): void;
+  unsubscribe(topic: string): void;
+  isSubscribed(topic: string): boolean;
+  /**
+   * Sends to every other socket subscribed to `topic`.
+   * Returns the number of sockets the message was queued on.
+   */
+  publish(topic: string, data: unknown): number;
+}
+
+// biome-ignore lint/complexity/noBannedTypes: ...
+export interface WebSocketHandlers<TSchema extends SchemaDefinition = {}> {
+  /** Schema of the upgrade request, `body` validating each message */
+  schema?: TSchema;
+
+  open?(ws: KitoWebSocket<TSchema>): void | Promise<void>;
+  message?(
+    ws: KitoWebSocket<TSchema>,
+    message: WebSocketMessage<TSchema>,
+  ): void | Promise<void>;
+  close?(
+    ws: KitoWebSocket<TSchema>,
+    code: number,
+    reason: string,
+  ): void | Promise<void>;
+  drain?(ws: KitoWebSocket<TSchema>): void | Promise<void>;
+  ping?(ws: KitoWebSocket<TSchema>, data: Buffer): void | Promise<void>;
+  pong?(ws: KitoWebSocket<TSchema>, data: Buffer): void | Promise<void>;
+}